@@ -0,0 +1,32 @@
+import { MemoryBackend } from "./memoryBackend.js";
+import { JsonFileBackend } from "./jsonFileBackend.js";
+import { SqliteBackend } from "./sqliteBackend.js";
+import type { StorageBackend, StorageKind } from "../../types/index.js";
+
+const DEFAULT_PATHS: Record<Exclude<StorageKind, "memory">, string> = {
+  json: "./data/fasttrack.json",
+  sqlite: "./data/fasttrack.db",
+};
+
+/**
+ * Create the storage backend selected by configuration:
+ *   FASTTRACK_STORE       memory (default) | json | sqlite
+ *   FASTTRACK_STORE_PATH  file path for the json/sqlite backends
+ */
+export function createStorageBackend(): StorageBackend {
+  const kind = (process.env.FASTTRACK_STORE || "memory").toLowerCase();
+  const path = process.env.FASTTRACK_STORE_PATH;
+
+  switch (kind) {
+    case "memory":
+      return new MemoryBackend();
+    case "json":
+      return new JsonFileBackend(path || DEFAULT_PATHS.json);
+    case "sqlite":
+      return new SqliteBackend(path || DEFAULT_PATHS.sqlite);
+    default:
+      throw new Error(
+        `Unknown FASTTRACK_STORE "${kind}". Supported values: memory, json, sqlite`
+      );
+  }
+}
@@ -0,0 +1,56 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { logger } from "../../utils/logger.js";
+import type { StorageBackend } from "../../types/index.js";
+
+type Snapshot = Record<string, Record<string, unknown>>;
+
+/**
+ * Persists every collection into a single JSON document. The whole file is
+ * rewritten (via a temp file + rename) on each change, which is fine for
+ * the few hundred records a FastTrack practice tracks.
+ */
+export class JsonFileBackend implements StorageBackend {
+  readonly kind = "json" as const;
+  private data: Snapshot = {};
+
+  constructor(private readonly filePath: string) {
+    if (existsSync(filePath)) {
+      try {
+        this.data = JSON.parse(readFileSync(filePath, "utf-8")) as Snapshot;
+      } catch (err) {
+        throw new Error(
+          `Unable to read store file ${filePath}: ${err instanceof Error ? err.message : String(err)}`
+        );
+      }
+    }
+    logger.info(`Using JSON file store at ${filePath}`);
+  }
+
+  load(collection: string): Array<[string, unknown]> {
+    return Object.entries(this.data[collection] ?? {});
+  }
+
+  put(collection: string, key: string, value: unknown): void {
+    if (!this.data[collection]) this.data[collection] = {};
+    this.data[collection][key] = value;
+    this.flush();
+  }
+
+  remove(collection: string, key: string): void {
+    if (!this.data[collection] || !(key in this.data[collection])) return;
+    delete this.data[collection][key];
+    this.flush();
+  }
+
+  isEmpty(): boolean {
+    return Object.values(this.data).every((c) => Object.keys(c).length === 0);
+  }
+
+  private flush(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(this.data, null, 2), "utf-8");
+    renameSync(tmpPath, this.filePath);
+  }
+}
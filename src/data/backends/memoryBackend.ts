@@ -0,0 +1,25 @@
+import type { StorageBackend } from "../../types/index.js";
+
+/**
+ * Volatile backend. Nothing survives a restart, so the store re-seeds the
+ * sample data on every start — handy for demos and local development.
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly kind = "memory" as const;
+
+  load(): Array<[string, unknown]> {
+    return [];
+  }
+
+  put(): void {
+    // Collections already hold the data in memory
+  }
+
+  remove(): void {
+    // Collections already hold the data in memory
+  }
+
+  isEmpty(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,72 @@
+import { mkdirSync } from "fs";
+import { createRequire } from "module";
+import { dirname } from "path";
+import type BetterSqlite3 from "better-sqlite3";
+import { logger } from "../../utils/logger.js";
+import type { StorageBackend } from "../../types/index.js";
+
+/**
+ * Embedded SQLite backend. Records are stored as JSON documents in a single
+ * `records` table keyed by (collection, key); insertion order is preserved
+ * through the rowid.
+ */
+export class SqliteBackend implements StorageBackend {
+  readonly kind = "sqlite" as const;
+  private db: BetterSqlite3.Database;
+
+  constructor(filePath: string) {
+    let Database: typeof BetterSqlite3;
+    try {
+      const require = createRequire(import.meta.url);
+      Database = require("better-sqlite3") as typeof BetterSqlite3;
+    } catch {
+      throw new Error(
+        "SQLite store is not available: the optional better-sqlite3 dependency is not installed or failed to build. Install it with: npm install better-sqlite3"
+      );
+    }
+
+    if (filePath !== ":memory:") {
+      mkdirSync(dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        key TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, key)
+      )`
+    );
+    logger.info(`Using SQLite store at ${filePath}`);
+  }
+
+  load(collection: string): Array<[string, unknown]> {
+    const rows = this.db
+      .prepare("SELECT key, data FROM records WHERE collection = ? ORDER BY rowid")
+      .all(collection) as Array<{ key: string; data: string }>;
+    return rows.map((r) => [r.key, JSON.parse(r.data)]);
+  }
+
+  put(collection: string, key: string, value: unknown): void {
+    this.db
+      .prepare(
+        `INSERT INTO records (collection, key, data) VALUES (?, ?, ?)
+         ON CONFLICT (collection, key) DO UPDATE SET data = excluded.data`
+      )
+      .run(collection, key, JSON.stringify(value));
+  }
+
+  remove(collection: string, key: string): void {
+    this.db
+      .prepare("DELETE FROM records WHERE collection = ? AND key = ?")
+      .run(collection, key);
+  }
+
+  isEmpty(): boolean {
+    const row = this.db.prepare("SELECT COUNT(*) AS n FROM records").get() as {
+      n: number;
+    };
+    return row.n === 0;
+  }
+}
@@ -0,0 +1,85 @@
+import { store } from "./store.js";
+import type {
+  AuditedEntityType,
+  ChangeLogEntry,
+  FieldChange,
+} from "../types/index.js";
+
+/** Bookkeeping fields that change on every write and are not worth auditing */
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+export interface ChangeInput {
+  entityType: AuditedEntityType;
+  entityId: string;
+  customerId: string;
+  action: ChangeLogEntry["action"];
+  before?: object;
+  after?: object;
+  changedBy: string;
+  reason?: string;
+}
+
+export interface ChangeQuery {
+  customerId?: string;
+  entityType?: AuditedEntityType;
+  entityId?: string;
+  since?: string;
+  limit?: number;
+}
+
+/**
+ * Field-level diff between two versions of a record. A missing side is
+ * treated as an empty record, so creates and deletes list every field.
+ */
+export function diffFields(before?: object, after?: object): FieldChange[] {
+  const prev = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (JSON.stringify(prev[field]) === JSON.stringify(next[field])) continue;
+    changes.push({ field, before: prev[field], after: next[field] });
+  }
+
+  return changes;
+}
+
+/**
+ * Append an entry to the change log. Updates that change nothing are not
+ * recorded and return null.
+ */
+export function recordChange(input: ChangeInput): ChangeLogEntry | null {
+  const changes = diffFields(input.before, input.after);
+  if (input.action === "update" && changes.length === 0) return null;
+
+  const entry: ChangeLogEntry = {
+    id: store.nextId("chg", 5),
+    entityType: input.entityType,
+    entityId: input.entityId,
+    customerId: input.customerId,
+    action: input.action,
+    changes,
+    changedBy: input.changedBy,
+    timestamp: new Date().toISOString(),
+    reason: input.reason,
+  };
+
+  store.changeLog.set(entry.id, entry);
+  return entry;
+}
+
+/** Change log entries matching the query, newest first */
+export function queryChanges(query: ChangeQuery): ChangeLogEntry[] {
+  let entries = store.changeLog.filter(
+    (e) =>
+      (!query.customerId || e.customerId === query.customerId) &&
+      (!query.entityType || e.entityType === query.entityType) &&
+      (!query.entityId || e.entityId === query.entityId) &&
+      (!query.since || e.timestamp >= query.since)
+  );
+
+  entries = entries.reverse();
+  return query.limit ? entries.slice(0, query.limit) : entries;
+}
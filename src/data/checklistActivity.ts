@@ -0,0 +1,73 @@
+import { z } from "zod";
+import type {
+  ChecklistComment,
+  ChecklistEvidence,
+  ExtractionResult,
+} from "../types/index.js";
+
+/** Extraction sources accepted as checklist evidence */
+export const EVIDENCE_EXTRACTION_SOURCES = ["pdf", "email"] as const;
+
+/** Saved extractions live on the checklist item, so keep them small */
+export const MAX_EXTRACTION_EVIDENCE_BYTES = 100_000;
+
+const extractionSchema = z.object({
+  metadata: z.object({
+    source: z.enum(EVIDENCE_EXTRACTION_SOURCES),
+    extractedAt: z.string().refine((v) => !Number.isNaN(Date.parse(v)), "must be an ISO 8601 timestamp"),
+    outputFormat: z.enum(["json", "markdown", "summary", "key-value", "csv"]),
+    recordCount: z.number().int().min(0),
+    targetTool: z.string().optional(),
+    warnings: z.array(z.string()).optional(),
+  }),
+  records: z.array(z.record(z.unknown())),
+  fieldHints: z.record(z.string()).optional(),
+});
+
+/**
+ * Parse the JSON output of extract_pdf / extract_email (outputFormat "json")
+ * into an extraction result that can be saved as evidence.
+ */
+export function parseExtractionEvidence(text: string): { result?: ExtractionResult; error?: string } {
+  const size = Buffer.byteLength(text, "utf8");
+  if (size > MAX_EXTRACTION_EVIDENCE_BYTES) {
+    return {
+      error: `Extraction is ${Math.ceil(size / 1000)} KB; at most ${MAX_EXTRACTION_EVIDENCE_BYTES / 1000} KB can be saved as evidence. Attach the source document as a file or url instead.`,
+    };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'Extraction is not valid JSON. Run extract_pdf or extract_email with outputFormat "json" and pass its output.' };
+  }
+
+  const result = extractionSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    return {
+      error: `Extraction is not the output of extract_pdf or extract_email: ${issues.join("; ")}.`,
+    };
+  }
+
+  const { metadata, records } = result.data;
+  return { result: { metadata, records } };
+}
+
+/** Short description of a saved extraction, used as its evidence reference */
+export function describeExtraction(result: ExtractionResult): string {
+  const { source, extractedAt, recordCount } = result.metadata;
+  const unit = source === "pdf" ? "page" : "message";
+  return `${source}, ${recordCount} ${unit}${recordCount === 1 ? "" : "s"}, extracted ${extractedAt.slice(0, 10)}`;
+}
+
+export function formatComment(comment: ChecklistComment): string {
+  const author = comment.onBehalfOf ? `${comment.author} on behalf of ${comment.onBehalfOf}` : comment.author;
+  return `**${author}** (${comment.createdAt.slice(0, 16).replace("T", " ")}): ${comment.text}`;
+}
+
+export function formatEvidence(evidence: ChecklistEvidence): string {
+  const label = evidence.title ? `${evidence.title} — ` : "";
+  return `${evidence.id}: ${label}${evidence.kind}: ${evidence.reference} (added by ${evidence.addedBy}, ${evidence.addedAt.slice(0, 10)})`;
+}
@@ -0,0 +1,160 @@
+import { recordChange } from "./changeLog.js";
+import type { ChecklistItem } from "../types/index.js";
+
+/** Statuses that count as finished for dependency purposes */
+export function isDone(item: ChecklistItem): boolean {
+  return item.status === "Completed" || item.status === "N/A";
+}
+
+/**
+ * First dependency cycle in the checklist, as a list of IDs ending where it
+ * started (e.g. chk-003 → chk-005 → chk-003), or undefined if there is none.
+ */
+export function findCycle(items: ChecklistItem[]): string[] | undefined {
+  const byId = new Map(items.map((i) => [i.id, i]));
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | undefined => {
+    if (state.get(id) === "done") return undefined;
+    if (state.get(id) === "visiting") return [...path.slice(path.indexOf(id)), id];
+    state.set(id, "visiting");
+    path.push(id);
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      if (!byId.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, "done");
+    return undefined;
+  };
+
+  for (const item of items) {
+    const cycle = visit(item.id);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+/**
+ * Problems with giving `itemId` the dependencies `dependsOn`: unknown IDs,
+ * self-references, and cycles.
+ */
+export function validateDependencies(items: ChecklistItem[], itemId: string, dependsOn: string[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set(items.map((i) => i.id));
+  for (const dep of dependsOn) {
+    if (dep === itemId) errors.push(`${itemId} cannot depend on itself.`);
+    else if (!ids.has(dep)) errors.push(`dependency ${dep} is not on this checklist.`);
+  }
+  if (errors.length > 0) return errors;
+
+  const candidate = items.map((i) => (i.id === itemId ? { ...i, dependsOn } : i));
+  if (!ids.has(itemId)) candidate.push({ id: itemId, dependsOn } as ChecklistItem);
+  const cycle = findCycle(candidate);
+  if (cycle) errors.push(`dependencies would create a cycle: ${cycle.join(" → ")}.`);
+  return errors;
+}
+
+/** Items ordered so that every item comes after its dependencies */
+export function topologicalOrder(items: ChecklistItem[]): ChecklistItem[] {
+  const byId = new Map(items.map((i) => [i.id, i]));
+  const ordered: ChecklistItem[] = [];
+  const seen = new Set<string>();
+  const visit = (item: ChecklistItem) => {
+    if (seen.has(item.id)) return;
+    seen.add(item.id);
+    for (const dep of item.dependsOn ?? []) {
+      const upstream = byId.get(dep);
+      if (upstream) visit(upstream);
+    }
+    ordered.push(item);
+  };
+  items.forEach(visit);
+  return ordered;
+}
+
+/** Items that depend on `itemId`, directly or transitively */
+export function dependentsOf(items: ChecklistItem[], itemId: string): ChecklistItem[] {
+  const found = new Map<string, ChecklistItem>();
+  const queue = [itemId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const item of items) {
+      if (item.dependsOn?.includes(current) && !found.has(item.id)) {
+        found.set(item.id, item);
+        queue.push(item.id);
+      }
+    }
+  }
+  return Array.from(found.values());
+}
+
+export interface PropagatedChange {
+  before: ChecklistItem;
+  after: ChecklistItem;
+}
+
+/**
+ * Push Blocked status down the dependency graph. Open items with a blocked
+ * dependency become Blocked (remembering their previous status); items
+ * blocked only by propagation are restored once no dependency is blocked.
+ * Items blocked by hand are left alone. Mutates the items in place and
+ * returns the ones that changed.
+ */
+export function propagateBlocked(items: ChecklistItem[]): PropagatedChange[] {
+  const byId = new Map(items.map((i) => [i.id, i]));
+  const changes: PropagatedChange[] = [];
+
+  for (const item of topologicalOrder(items)) {
+    const blockers = (item.dependsOn ?? []).filter((d) => byId.get(d)?.status === "Blocked");
+    const before = { ...item };
+
+    if (blockers.length > 0 && !isDone(item)) {
+      if (item.status !== "Blocked") {
+        item.statusBeforeBlock = item.status;
+        item.status = "Blocked";
+        item.blockedBy = blockers;
+      } else if (item.blockedBy) {
+        item.blockedBy = blockers;
+      }
+    } else if (item.blockedBy) {
+      item.status = item.statusBeforeBlock ?? "Not Started";
+      delete item.blockedBy;
+      delete item.statusBeforeBlock;
+    }
+
+    if (
+      before.status !== item.status ||
+      (before.blockedBy ?? []).join(",") !== (item.blockedBy ?? []).join(",")
+    ) {
+      changes.push({ before, after: { ...item } });
+    }
+  }
+  return changes;
+}
+
+/** Audit the status changes caused by block propagation and describe them */
+export function recordPropagation(customerId: string, changes: PropagatedChange[], changedBy: string): string {
+  for (const { before, after } of changes) {
+    recordChange({
+      entityType: "checklistItem",
+      entityId: after.id,
+      customerId,
+      action: "update",
+      before,
+      after,
+      changedBy,
+      reason: after.blockedBy
+        ? `Blocked by ${after.blockedBy.join(", ")}`
+        : "Upstream block cleared",
+    });
+  }
+  if (changes.length === 0) return "";
+  return `\n\n**Dependents updated:**\n${changes
+    .map(({ before, after }) =>
+      `- ${after.title} (${after.id}): ${before.status} → ${after.status}${after.blockedBy ? ` (blocked by ${after.blockedBy.join(", ")})` : ""}`
+    )
+    .join("\n")}`;
+}
@@ -0,0 +1,9 @@
+import { store } from "./store.js";
+import { captureProgressSnapshot } from "./progressSnapshots.js";
+import type { ChecklistItem } from "../types/index.js";
+
+/** Save a customer's checklist and bring today's progress snapshot in line with it */
+export function saveChecklist(customerId: string, items: ChecklistItem[]): void {
+  store.checklists.set(customerId, items);
+  captureProgressSnapshot(customerId);
+}
@@ -0,0 +1,60 @@
+import type { StorageBackend } from "../types/index.js";
+
+/**
+ * A named, keyed set of records cached in memory and written through to the
+ * storage backend. Reads hand out copies, so callers must call `set()` to
+ * persist a change — mutating a returned record has no effect.
+ */
+export class Collection<T> {
+  private records: Map<string, T>;
+
+  constructor(
+    private readonly name: string,
+    private readonly backend: StorageBackend
+  ) {
+    this.records = new Map(backend.load(name) as Array<[string, T]>);
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  has(key: string): boolean {
+    return this.records.has(key);
+  }
+
+  get(key: string): T | undefined {
+    const record = this.records.get(key);
+    return record === undefined ? undefined : structuredClone(record);
+  }
+
+  keys(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  list(): T[] {
+    return Array.from(this.records.values(), (r) => structuredClone(r));
+  }
+
+  find(predicate: (record: T) => boolean): T | undefined {
+    for (const record of this.records.values()) {
+      if (predicate(record)) return structuredClone(record);
+    }
+    return undefined;
+  }
+
+  filter(predicate: (record: T) => boolean): T[] {
+    return this.list().filter(predicate);
+  }
+
+  set(key: string, value: T): void {
+    this.records.set(key, structuredClone(value));
+    this.backend.put(this.name, key, value);
+  }
+
+  delete(key: string): boolean {
+    if (!this.records.delete(key)) return false;
+    this.backend.remove(this.name, key);
+    return true;
+  }
+}
@@ -0,0 +1,83 @@
+import { store } from "./store.js";
+import { normalizeText, tokenMatchScore } from "../utils/fuzzyMatch.js";
+import type { Contact, ContactRole } from "../types/index.js";
+
+export const CONTACT_ROLES: [ContactRole, ...ContactRole[]] = [
+  "Executive Sponsor",
+  "Project Manager",
+  "Partner Lead",
+  "Solution Architect",
+  "Data Architect",
+  "Integration Architect",
+  "Technical Architect",
+  "Functional Lead",
+  "Test Lead",
+  "Change Manager",
+  "Support Lead",
+  "Business Owner",
+  "FastTrack Architect",
+  "Other",
+];
+
+export function isValidEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+/** True if the value is an IANA time zone the runtime recognizes */
+export function isValidTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function contactsForCustomer(customerId: string): Contact[] {
+  return store.contacts.filter((c) => c.customerId === customerId);
+}
+
+/**
+ * Resolve a free-text checklist owner to the customer's contacts. The owner
+ * may be a contact ID, email, name, or role (e.g. "Project Manager"); a role
+ * can resolve to several people.
+ */
+export function resolveOwner(customerId: string, owner: string): Contact[] {
+  const contacts = contactsForCustomer(customerId);
+  const key = normalizeText(owner);
+
+  const direct = contacts.filter(
+    (c) =>
+      c.id === owner ||
+      c.email?.toLowerCase() === owner.toLowerCase() ||
+      normalizeText(c.name) === key
+  );
+  if (direct.length > 0) return direct;
+
+  return contacts.filter((c) => normalizeText(c.role) === key);
+}
+
+export function formatContact(contact: Contact): string {
+  return `${contact.name}${contact.email ? ` <${contact.email}>` : ""}`;
+}
+
+export interface ContactMatch {
+  contact: Contact;
+  score: number;
+}
+
+/** Fuzzy search over contact name, email, role, organization, and notes */
+export function searchContacts(query: string, contacts: Contact[]): ContactMatch[] {
+  const q = normalizeText(query);
+
+  return contacts
+    .map((contact) => {
+      const fields = [contact.name, contact.email ?? "", contact.role, contact.organization, contact.notes ?? ""];
+      const score = Math.max(
+        ...fields.map((f) => (q && normalizeText(f).includes(q) ? 1 : tokenMatchScore(query, f)))
+      );
+      return { contact, score };
+    })
+    .filter((m) => m.score >= 0.75)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,101 @@
+import { addDays, daysBetween, todayIso } from "../utils/dates.js";
+import { isIsoDate } from "../utils/validation.js";
+import { isDone, topologicalOrder } from "./checklistDependencies.js";
+import type { ChecklistItem, Customer } from "../types/index.js";
+
+/** Effort assumed for open items without an estimate */
+export const DEFAULT_EFFORT_DAYS = 5;
+
+export interface ScheduledItem {
+  item: ChecklistItem;
+  effortDays: number;
+  /** True when DEFAULT_EFFORT_DAYS was used */
+  assumedEffort: boolean;
+  earliestStart: string;
+  earliestFinish: string;
+  latestFinish: string;
+  /** Days the item can slip without missing its due date, a dependent's, or go-live; negative when already late */
+  slackDays: number;
+}
+
+export interface CriticalPath {
+  startDate: string;
+  goLiveDate?: string;
+  projectedFinish: string;
+  /** Open items, in dependency order */
+  scheduled: ScheduledItem[];
+  /** Chain of items that drives the projected finish, first to last */
+  path: ScheduledItem[];
+  /** Days between projected finish and go-live; negative when go-live would be missed */
+  slackToGoLive?: number;
+}
+
+/**
+ * Schedule the open checklist items from today: each starts once its
+ * dependencies finish and takes its estimated effort (forward pass). Latest
+ * finish dates come from due dates, dependents' latest starts, and go-live
+ * for items outside the Operate phase (backward pass); slack is the difference.
+ */
+export function computeCriticalPath(customer: Customer, items: ChecklistItem[], today = todayIso()): CriticalPath {
+  const open = topologicalOrder(items).filter((i) => !isDone(i));
+  const openIds = new Set(open.map((i) => i.id));
+  const goLive = customer.goLiveDate ? daysBetween(today, customer.goLiveDate) : undefined;
+
+  const effort = new Map<string, number>();
+  const es = new Map<string, number>();
+  const ef = new Map<string, number>();
+  for (const item of open) {
+    const days = item.estimatedEffortDays ?? DEFAULT_EFFORT_DAYS;
+    const start = Math.max(0, ...(item.dependsOn ?? []).filter((d) => openIds.has(d)).map((d) => ef.get(d)!));
+    effort.set(item.id, days);
+    es.set(item.id, start);
+    ef.set(item.id, start + days);
+  }
+  const finish = Math.max(0, ...ef.values());
+
+  const lf = new Map<string, number>();
+  for (const item of [...open].reverse()) {
+    const limits: number[] = [];
+    // Due dates that do not parse are ignored rather than breaking the schedule
+    if (item.dueDate && isIsoDate(item.dueDate)) limits.push(daysBetween(today, item.dueDate));
+    // Pre-go-live work must finish by go-live even when it is due later; Operate items run after it
+    if (goLive !== undefined && item.phase !== "Operate") limits.push(goLive);
+    for (const dependent of open) {
+      if (dependent.dependsOn?.includes(item.id)) limits.push(lf.get(dependent.id)! - effort.get(dependent.id)!);
+    }
+    lf.set(item.id, limits.length > 0 ? Math.min(...limits) : Math.max(finish, goLive ?? finish));
+  }
+
+  const scheduled: ScheduledItem[] = open.map((item) => ({
+    item,
+    effortDays: effort.get(item.id)!,
+    assumedEffort: item.estimatedEffortDays === undefined,
+    earliestStart: addDays(today, es.get(item.id)!),
+    earliestFinish: addDays(today, ef.get(item.id)!),
+    latestFinish: addDays(today, lf.get(item.id)!),
+    slackDays: lf.get(item.id)! - ef.get(item.id)!,
+  }));
+
+  // Walk back from the last-finishing item along the dependency that finishes latest
+  const byId = new Map(scheduled.map((s) => [s.item.id, s]));
+  const path: ScheduledItem[] = [];
+  let current: ScheduledItem | undefined = [...scheduled].sort(
+    (a, b) => ef.get(b.item.id)! - ef.get(a.item.id)! || a.slackDays - b.slackDays
+  )[0];
+  while (current) {
+    path.unshift(current);
+    const start: number = es.get(current.item.id)!;
+    current = (current.item.dependsOn ?? [])
+      .map((d) => byId.get(d))
+      .find((s): s is ScheduledItem => s !== undefined && ef.get(s.item.id) === start && !path.includes(s));
+  }
+
+  return {
+    startDate: today,
+    goLiveDate: customer.goLiveDate,
+    projectedFinish: addDays(today, finish),
+    scheduled,
+    path,
+    slackToGoLive: goLive !== undefined ? goLive - finish : undefined,
+  };
+}
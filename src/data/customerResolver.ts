@@ -0,0 +1,115 @@
+import { store } from "./store.js";
+import { normalizeText, tokenMatchScore } from "../utils/fuzzyMatch.js";
+import type { Customer } from "../types/index.js";
+
+export interface CustomerMatch {
+  customer: Customer;
+  score: number;
+  matchedOn: "id" | "name" | "notes";
+}
+
+export type CustomerLookup =
+  | { customer: Customer; message?: undefined }
+  | { customer?: undefined; message: string; candidates: CustomerMatch[] };
+
+/** Below this score a customer is not considered a candidate at all */
+const MIN_CANDIDATE_SCORE = 0.5;
+/** Minimum score for the best match to be accepted on its own */
+const MIN_ACCEPT_SCORE = 0.6;
+/** Required lead of the best match over the runner-up */
+const MIN_LEAD = 0.1;
+
+function scoreCustomer(customer: Customer, query: string): CustomerMatch {
+  const q = normalizeText(query);
+  const id = normalizeText(customer.id);
+  const name = normalizeText(customer.name);
+
+  // "cust-1", "cust 001", "CUST-001" all mean cust-001
+  const idNumber = q.match(/^cust ?0*(\d+)$/)?.[1];
+  if (q === id || (idNumber && id === `cust ${idNumber.padStart(3, "0")}`)) {
+    return { customer, score: 1, matchedOn: "id" };
+  }
+
+  let nameScore = 0;
+  if (name === q) {
+    nameScore = 1;
+  } else if (q && name.includes(q)) {
+    // Longer share of the name matched → closer to an exact match
+    nameScore = 0.85 + 0.1 * (q.length / name.length);
+  } else {
+    nameScore = 0.85 * tokenMatchScore(query, customer.name);
+  }
+
+  let notesScore = 0;
+  if (customer.notes) {
+    const notes = normalizeText(customer.notes);
+    notesScore = q && notes.includes(q) ? 0.55 : 0.45 * tokenMatchScore(query, customer.notes);
+  }
+
+  return notesScore > nameScore
+    ? { customer, score: notesScore, matchedOn: "notes" }
+    : { customer, score: nameScore, matchedOn: "name" };
+}
+
+/** All customers matching the query, best first */
+export function rankCustomers(query: string): CustomerMatch[] {
+  return store.customers
+    .list()
+    .map((c) => scoreCustomer(c, query))
+    .filter((m) => m.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+export function formatCandidates(candidates: CustomerMatch[]): string {
+  return candidates
+    .slice(0, 10)
+    .map(
+      (m) =>
+        `- **${m.customer.name}** (${m.customer.id}) — score ${m.score.toFixed(2)}, matched on ${m.matchedOn}${m.customer.archivedAt ? " — archived" : ""}`
+    )
+    .join("\n");
+}
+
+/**
+ * Resolve a customer ID or (partial, misspelled) name to a single customer.
+ * Exact IDs always win. Otherwise the best fuzzy match is accepted only if it
+ * clearly beats the runner-up; ambiguous or unknown identifiers return a
+ * message listing the candidates with their scores. With `exact`, only an
+ * exact ID is accepted, for destructive tools where a near miss is dangerous.
+ */
+export function lookupCustomer(identifier: string, options: { exact?: boolean } = {}): CustomerLookup {
+  const exact = store.customers.get(identifier);
+  if (exact) return { customer: exact };
+
+  const candidates = rankCustomers(identifier);
+
+  if (options.exact) {
+    return {
+      message: `No customer has the ID "${identifier}". This operation requires an exact customer ID.${
+        candidates.length > 0 ? `\n\nDid you mean:\n${formatCandidates(candidates)}` : " Use list_customers to see available customers."
+      }`,
+      candidates,
+    };
+  }
+  const [best, runnerUp] = candidates;
+
+  if (
+    best &&
+    best.score >= MIN_ACCEPT_SCORE &&
+    (!runnerUp || best.score - runnerUp.score >= MIN_LEAD)
+  ) {
+    return { customer: best.customer };
+  }
+
+  if (candidates.length === 0) {
+    return {
+      message: `Customer not found: "${identifier}". Use list_customers to see available customers.`,
+      candidates,
+    };
+  }
+
+  return {
+    message: `"${identifier}" matches more than one customer. Specify one by ID:\n\n${formatCandidates(candidates)}`,
+    candidates,
+  };
+}
@@ -0,0 +1,98 @@
+import { store } from "./store.js";
+import { recordChange } from "./changeLog.js";
+import { compareVersions } from "./environmentEvents.js";
+import type { DeployedState, Deployment } from "../types/index.js";
+
+/** Deployments to an environment, oldest first */
+export function deploymentsForEnvironment(environmentId: string): Deployment[] {
+  return store.deployments
+    .filter((d) => d.environmentId === environmentId)
+    .sort((a, b) => a.deployedAt.localeCompare(b.deployedAt));
+}
+
+/** Remove an environment's deployments, recording each in the change history; returns how many were removed */
+export function deleteDeployments(environmentId: string, changedBy: string, reason?: string): number {
+  const deployments = deploymentsForEnvironment(environmentId);
+  for (const deployment of deployments) {
+    store.deployments.delete(deployment.id);
+    recordChange({
+      entityType: "deployment",
+      entityId: deployment.id,
+      customerId: deployment.customerId,
+      action: "delete",
+      before: deployment,
+      changedBy,
+      reason,
+    });
+  }
+  return deployments.length;
+}
+
+/**
+ * What an environment is running: each successful deployment overwrites the
+ * versions of the models and ISV solutions it contains. Failed and rolled
+ * back deployments leave the state unchanged.
+ */
+export function deployedState(environmentId: string): DeployedState {
+  const state: DeployedState = { environmentId, models: {}, isvSolutions: {} };
+  for (const deployment of deploymentsForEnvironment(environmentId)) {
+    if (deployment.outcome !== "Succeeded") continue;
+    state.lastPackage = deployment.packageName;
+    state.lastDeployedAt = deployment.deployedAt;
+    for (const m of deployment.models) state.models[m.name] = m.version;
+    for (const s of deployment.isvSolutions) state.isvSolutions[s.name] = s.version;
+  }
+  return state;
+}
+
+export interface DriftEntry {
+  kind: "Model" | "ISV Solution";
+  name: string;
+  source?: string;
+  target?: string;
+  /** Which side is ahead, or where the component is missing */
+  difference: "Newer in source" | "Newer in target" | "Only in source" | "Only in target";
+}
+
+function diffComponents(
+  kind: DriftEntry["kind"],
+  source: Record<string, string>,
+  target: Record<string, string>
+): DriftEntry[] {
+  const names = Array.from(new Set([...Object.keys(source), ...Object.keys(target)])).sort();
+  const drift: DriftEntry[] = [];
+  for (const name of names) {
+    const a = source[name];
+    const b = target[name];
+    if (a === undefined) {
+      drift.push({ kind, name, target: b, difference: "Only in target" });
+    } else if (b === undefined) {
+      drift.push({ kind, name, source: a, difference: "Only in source" });
+    } else if (compareVersions(a, b) !== 0) {
+      drift.push({
+        kind,
+        name,
+        source: a,
+        target: b,
+        difference: compareVersions(a, b) > 0 ? "Newer in source" : "Newer in target",
+      });
+    }
+  }
+  return drift;
+}
+
+/** Model and ISV differences between two environments' deployed states */
+export function compareDeployedStates(source: DeployedState, target: DeployedState): DriftEntry[] {
+  return [
+    ...diffComponents("Model", source.models, target.models),
+    ...diffComponents("ISV Solution", source.isvSolutions, target.isvSolutions),
+  ];
+}
+
+export function formatDeployment(deployment: Deployment): string {
+  const models = deployment.models.map((m) => `${m.name} ${m.version}`).join(", ");
+  const isv = deployment.isvSolutions.map((s) => `${s.name} ${s.version}`).join(", ");
+  return `${deployment.deployedAt} — **${deployment.packageName}** (${deployment.id}) ${deployment.outcome} by ${deployment.deployedBy}${
+    models ? ` | Models: ${models}` : ""
+  }${isv ? ` | ISV: ${isv}` : ""}${deployment.notes ? ` (${deployment.notes})` : ""}`;
+}
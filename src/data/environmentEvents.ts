@@ -0,0 +1,72 @@
+import { store } from "./store.js";
+import type {
+  D365Environment,
+  EnvironmentEvent,
+  EnvironmentEventType,
+  EnvironmentStatus,
+} from "../types/index.js";
+
+/** Allowed environment status transitions; Decommissioned is terminal */
+const STATUS_TRANSITIONS: Record<EnvironmentStatus, EnvironmentStatus[]> = {
+  Provisioning: ["Active", "Decommissioned"],
+  Active: ["Decommissioned"],
+  Decommissioned: [],
+};
+
+export function canTransitionEnvironment(from: EnvironmentStatus, to: EnvironmentStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** Numeric comparison of dotted versions ("10.0.9" < "10.0.40") */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map((p) => parseInt(p, 10) || 0);
+  const pb = b.split(".").map((p) => parseInt(p, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export function isValidVersion(version: string): boolean {
+  return /^\d+(\.\d+)+$/.test(version);
+}
+
+export function recordEnvironmentEvent(
+  environment: D365Environment,
+  type: EnvironmentEventType,
+  recordedBy: string,
+  details: Pick<EnvironmentEvent, "fromVersion" | "toVersion" | "notes"> = {}
+): EnvironmentEvent {
+  const event: EnvironmentEvent = {
+    id: store.nextId("evt", 4),
+    environmentId: environment.id,
+    customerId: environment.customerId,
+    type,
+    ...details,
+    timestamp: new Date().toISOString(),
+    recordedBy,
+  };
+  store.environmentEvents.set(event.id, event);
+  return event;
+}
+
+/** Events for an environment, oldest first */
+export function environmentEvents(environmentId: string): EnvironmentEvent[] {
+  return store.environmentEvents.filter((e) => e.environmentId === environmentId);
+}
+
+/** Remove an environment's events when the environment is deleted; returns how many were removed */
+export function deleteEnvironmentEvents(environmentId: string): number {
+  const events = environmentEvents(environmentId);
+  for (const event of events) store.environmentEvents.delete(event.id);
+  return events.length;
+}
+
+export function formatEnvironmentEvent(event: EnvironmentEvent): string {
+  const version =
+    event.fromVersion || event.toVersion
+      ? ` v${event.fromVersion ?? "?"} → v${event.toVersion ?? "?"}`
+      : "";
+  return `${event.timestamp} — ${event.type}${version} by ${event.recordedBy}${event.notes ? ` (${event.notes})` : ""}`;
+}
@@ -0,0 +1,64 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { detectedVersion, probeEnvironment } from "./environmentProbe.js";
+import type { D365Environment } from "../types/index.js";
+
+function environmentAt(url: string): D365Environment {
+  return {
+    id: "env-test",
+    customerId: "cust-test",
+    name: "Stub",
+    type: "Sandbox",
+    region: "Local",
+    version: "10.0.40",
+    url,
+    status: "Active",
+  };
+}
+
+describe("probeEnvironment against a local stub server", () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === "/hang") return; // never answers, so the probe times out
+      res.writeHead(req.url === "/broken" ? 503 : 200, { "x-ms-dyn-version": "10.0.41" });
+      res.end("ok");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("reports a reachable environment with status and latency", async () => {
+    const probe = await probeEnvironment(environmentAt(baseUrl), "test", { paths: ["/broken"] });
+    assert.equal(probe.reachable, true);
+    assert.equal(probe.endpoints[0].status, 200);
+    assert.equal(typeof probe.latencyMs, "number");
+    assert.equal(probe.endpoints[1].status, 503);
+  });
+
+  it("records a timeout as an endpoint error", async () => {
+    const probe = await probeEnvironment(environmentAt(baseUrl), "test", { paths: ["/hang"], timeoutMs: 200 });
+    assert.equal(probe.reachable, true);
+    assert.match(probe.endpoints[1].error ?? "", /timed out after 200 ms/);
+  });
+
+  it("detects the application version from response headers", async () => {
+    const probe = await probeEnvironment(environmentAt(baseUrl), "test", { paths: [] });
+    assert.equal(probe.versionHeaders["x-ms-dyn-version"], "10.0.41");
+    assert.equal(detectedVersion(probe), "10.0.41");
+  });
+
+  it("skips paths that resolve to another host", async () => {
+    const probe = await probeEnvironment(environmentAt(baseUrl), "test", { paths: ["//169.254.169.254/latest"] });
+    assert.match(probe.endpoints[1].error ?? "", /skipped/);
+  });
+});
@@ -0,0 +1,181 @@
+import http from "http";
+import https from "https";
+import type { TLSSocket } from "tls";
+import { compareVersions } from "./environmentEvents.js";
+import type {
+  D365Environment,
+  EnvironmentProbe,
+  ProbeEndpointResult,
+  TlsCertificateInfo,
+} from "../types/index.js";
+
+/** Paths checked after the base URL: health check and OData metadata */
+export const DEFAULT_PROBE_PATHS = ["/healthcheck", "/data/$metadata"];
+
+export const DEFAULT_PROBE_TIMEOUT_MS = 10_000;
+
+export const MAX_PROBE_PATHS = 5;
+
+/** Certificates expiring within this many days are flagged */
+export const CERT_EXPIRY_WARNING_DAYS = 30;
+
+const VERSION_HEADER = /version|^x-ms-dyn|^server$/i;
+
+interface HttpCheck extends ProbeEndpointResult {
+  headers?: http.IncomingHttpHeaders;
+  tls?: TlsCertificateInfo;
+}
+
+function certificateInfo(socket: TLSSocket): TlsCertificateInfo | undefined {
+  const cert = socket.getPeerCertificate();
+  if (!cert || !cert.valid_to) return undefined;
+  const expires = new Date(cert.valid_to);
+  if (Number.isNaN(expires.getTime())) return undefined;
+  const validTo = expires.toISOString();
+  return {
+    subject: cert.subject?.CN,
+    issuer: cert.issuer?.O ?? cert.issuer?.CN,
+    validTo,
+    daysToExpiry: Math.floor((Date.parse(validTo) - Date.now()) / 86_400_000),
+    authorized: socket.authorized,
+    ...(socket.authorizationError && { authorizationError: String(socket.authorizationError) }),
+  };
+}
+
+/**
+ * Single GET request. Certificate errors do not abort the request so that
+ * self-signed and expired certificates can still be reported.
+ */
+function check(url: URL, timeoutMs: number): Promise<HttpCheck> {
+  const path = `${url.pathname}${url.search}`;
+  const started = performance.now();
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve) => {
+    const req = client.request(
+      url,
+      {
+        method: "GET",
+        agent: false,
+        rejectUnauthorized: false,
+        timeout: timeoutMs,
+        headers: { "user-agent": "fasttrack-mcp-probe" },
+      },
+      (res) => {
+        const latencyMs = Math.round(performance.now() - started);
+        const socket = res.socket as TLSSocket;
+        const tls = typeof socket.getPeerCertificate === "function" ? certificateInfo(socket) : undefined;
+        res.resume();
+        resolve({ path, status: res.statusCode, latencyMs, headers: res.headers, tls });
+      }
+    );
+    req.on("timeout", () => req.destroy(new Error(`timed out after ${timeoutMs} ms`)));
+    req.on("error", (err) => resolve({ path, error: err.message }));
+    req.end();
+  });
+}
+
+/**
+ * Errors for caller-supplied probe paths. Only root-relative paths are
+ * accepted so a probe can never be pointed away from the environment's host.
+ */
+export function validateProbePaths(paths: string[]): string[] {
+  const errors: string[] = [];
+  if (paths.length > MAX_PROBE_PATHS) {
+    errors.push(`At most ${MAX_PROBE_PATHS} paths can be probed at once.`);
+  }
+  for (const path of paths) {
+    if (!path.startsWith("/") || path.startsWith("//") || path.includes("\\")) {
+      errors.push(`Path "${path}" must be a relative path starting with a single "/".`);
+    }
+  }
+  return errors;
+}
+
+function versionHeaders(headers: http.IncomingHttpHeaders | undefined): Record<string, string> {
+  const found: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (value !== undefined && VERSION_HEADER.test(name)) {
+      found[name] = Array.isArray(value) ? value.join(", ") : value;
+    }
+  }
+  return found;
+}
+
+/** Probe an environment's base URL and health/metadata endpoints */
+export async function probeEnvironment(
+  environment: D365Environment,
+  probedBy: string,
+  options: { paths?: string[]; timeoutMs?: number } = {}
+): Promise<EnvironmentProbe> {
+  const base = new URL(environment.url!);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+
+  const root = await check(base, timeoutMs);
+  const checks: HttpCheck[] = [root];
+  for (const path of (options.paths ?? DEFAULT_PROBE_PATHS).slice(0, MAX_PROBE_PATHS)) {
+    const resolved = new URL(path, base);
+    if (validateProbePaths([path]).length > 0 || resolved.origin !== base.origin) {
+      checks.push({ path, error: "not on the environment's host; skipped" });
+      continue;
+    }
+    checks.push(await check(resolved, timeoutMs));
+  }
+
+  // Headers from the base URL win over those from the other endpoints
+  const headers: Record<string, string> = {};
+  for (const c of [...checks].reverse()) Object.assign(headers, versionHeaders(c.headers));
+
+  return {
+    url: base.href,
+    probedAt: new Date().toISOString(),
+    probedBy,
+    reachable: root.status !== undefined,
+    latencyMs: root.latencyMs,
+    tls: root.tls,
+    versionHeaders: headers,
+    endpoints: checks.map(({ path, status, latencyMs, error }) => ({ path, status, latencyMs, error })),
+  };
+}
+
+/** First dotted application version found in the version headers */
+export function detectedVersion(probe: EnvironmentProbe): string | undefined {
+  for (const [name, value] of Object.entries(probe.versionHeaders)) {
+    if (/^server$/i.test(name)) continue;
+    const match = value.match(/\b10\.\d+\.\d+\b/);
+    if (match) return match[0];
+  }
+  return undefined;
+}
+
+/** Findings for a probe, in the report style used by the readiness checks */
+export function probeFindings(environment: D365Environment, probe: EnvironmentProbe): string[] {
+  const findings: string[] = [];
+  if (!probe.reachable) {
+    findings.push(`CRITICAL: ${probe.url} is unreachable (${probe.endpoints[0].error ?? "no response"}).`);
+  } else if (probe.endpoints[0].status! >= 500) {
+    findings.push(`HIGH: ${probe.url} returned HTTP ${probe.endpoints[0].status}.`);
+  }
+  for (const endpoint of probe.reachable ? probe.endpoints.slice(1) : []) {
+    if (endpoint.error || (endpoint.status ?? 0) >= 500) {
+      findings.push(`WARNING: ${endpoint.path} ${endpoint.error ? `failed (${endpoint.error})` : `returned HTTP ${endpoint.status}`}.`);
+    }
+  }
+  if (probe.tls) {
+    if (probe.tls.daysToExpiry < 0) {
+      findings.push(`CRITICAL: TLS certificate expired on ${probe.tls.validTo.slice(0, 10)}.`);
+    } else if (probe.tls.daysToExpiry <= CERT_EXPIRY_WARNING_DAYS) {
+      findings.push(`WARNING: TLS certificate expires in ${probe.tls.daysToExpiry} day(s) (${probe.tls.validTo.slice(0, 10)}).`);
+    }
+    if (!probe.tls.authorized) {
+      findings.push(`HIGH: TLS certificate is not trusted${probe.tls.authorizationError ? ` (${probe.tls.authorizationError})` : ""}.`);
+    }
+  } else if (probe.reachable && probe.url.startsWith("http:")) {
+    findings.push("WARNING: Environment URL does not use HTTPS.");
+  }
+  const version = detectedVersion(probe);
+  if (version && compareVersions(version, environment.version) !== 0) {
+    findings.push(`WARNING: Environment reports v${version} but is recorded as v${environment.version}; update the record with update_environment.`);
+  }
+  return findings;
+}
@@ -0,0 +1,168 @@
+import { store } from "./store.js";
+import { assessVersionSupport, recommendedTargetVersion } from "./versionCatalog.js";
+import { currentPhase } from "./lifecycle.js";
+import { evaluateRulePack } from "./rules/ruleEngine.js";
+import { rulePackForCustomer } from "./rules/rulePacks.js";
+import { checkDataResidency } from "./geographies.js";
+import { describeTopologyGap, effectivePurpose, validateTopology } from "./topology.js";
+import type { Customer, EnvironmentPurpose, EnvironmentReadiness, RulePack, VersionSupport, D365Environment } from "../types/index.js";
+
+type SupportEntry = VersionSupport & { env: D365Environment };
+
+function supportFacts(entries: SupportEntry[]) {
+  return {
+    count: entries.length,
+    list: entries.map((s) =>
+      s.update
+        ? `${s.env.name} (v${s.version}, end of service ${s.update.endOfServiceDate})`
+        : `${s.env.name} (v${s.version})`
+    ),
+  };
+}
+
+/**
+ * Facts the readiness rules are evaluated against. Rule predicates and
+ * message placeholders refer to these by dotted path.
+ */
+export function buildReadinessFacts(customer: Customer): Record<string, unknown> {
+  const environments = store.environments.filter((e) => e.customerId === customer.id);
+  // Decommissioned environments no longer count toward the topology
+  const live = environments.filter((e) => e.status !== "Decommissioned");
+
+  const byType: Record<D365Environment["type"], number> = {
+    Sandbox: 0,
+    UAT: 0,
+    Production: 0,
+    DevTest: 0,
+    Build: 0,
+  };
+  for (const e of live) byType[e.type]++;
+  const byPurpose: Partial<Record<EnvironmentPurpose, number>> = {};
+  for (const e of live) byPurpose[effectivePurpose(e)] = (byPurpose[effectivePurpose(e)] ?? 0) + 1;
+
+  const versions = Array.from(new Set(live.map((e) => e.version)));
+  const production = live.find((e) => e.type === "Production");
+  const uat = live.find((e) => effectivePurpose(e) === "UAT");
+
+  const goLiveDate = customer.goLiveDate;
+  const support: SupportEntry[] = live.map((e) => ({ env: e, ...assessVersionSupport(e.version, goLiveDate) }));
+  const target = recommendedTargetVersion(goLiveDate);
+  const provisioning = live.filter((e) => e.status === "Provisioning");
+  const decommissioned = environments.filter((e) => e.status === "Decommissioned");
+  const topologyGaps = validateTopology(customer).filter((c) => !c.satisfied);
+  // Gaps with no environment of the required purpose at all, and those where one exists but falls short
+  const absentGaps = topologyGaps.filter((c) => c.matched.length === 0 && c.underTier.length === 0);
+  const shortfallGaps = topologyGaps.filter((c) => !absentGaps.includes(c));
+  const residency = checkDataResidency(customer, live);
+  const outsideProduction = residency.outside.filter((o) => o.environment.type === "Production");
+  const outsideOther = residency.outside.filter((o) => o.environment.type !== "Production");
+  const describeOutside = (o: (typeof residency.outside)[number]) =>
+    `${o.environment.name} (${o.environment.region}, ${o.geography})`;
+
+  return {
+    customer: {
+      id: customer.id,
+      engagementType: customer.engagementType,
+      region: customer.region,
+      status: customer.status,
+      goLiveDate,
+      modules: customer.d365Modules,
+      phase: currentPhase(customer),
+    },
+    environments: {
+      count: environments.length,
+      liveCount: live.length,
+      byType,
+      byPurpose,
+      versions,
+      versionCount: versions.length,
+      productionVersion: production?.version,
+      uatVersion: uat?.version,
+      prodUatVersionMismatch: !!production && !!uat && production.version !== uat.version,
+      provisioning: {
+        count: provisioning.length,
+        list: provisioning.map(
+          (e) => `${e.name}${e.provisioningStartedAt ? ` (since ${e.provisioningStartedAt.slice(0, 10)})` : ""}`
+        ),
+      },
+      decommissioned: {
+        count: decommissioned.length,
+        list: decommissioned.map((e) => e.name),
+      },
+    },
+    topology: {
+      gaps: {
+        count: topologyGaps.length,
+        ids: topologyGaps.map((c) => c.requirement.id),
+        list: topologyGaps.map(describeTopologyGap),
+      },
+      absent: {
+        count: absentGaps.length,
+        ids: absentGaps.map((c) => c.requirement.id),
+        list: absentGaps.map(describeTopologyGap),
+      },
+      shortfalls: {
+        count: shortfallGaps.length,
+        ids: shortfallGaps.map((c) => c.requirement.id),
+        list: shortfallGaps.map(describeTopologyGap),
+      },
+    },
+    residency: {
+      allowedGeographies: residency.allowed,
+      checked: residency.allowed.length > 0,
+      overridden: !!customer.allowedGeographies?.length,
+      production: { count: outsideProduction.length, list: outsideProduction.map(describeOutside) },
+      nonProduction: { count: outsideOther.length, list: outsideOther.map(describeOutside) },
+      unmapped: {
+        count: residency.unmapped.length,
+        list: residency.unmapped.map((e) => `${e.name} (${e.region})`),
+      },
+    },
+    support: {
+      unsupported: supportFacts(support.filter((s) => s.status === "Unsupported")),
+      endsBeforeGoLive: supportFacts(support.filter((s) => s.status === "Ends Before Go-Live")),
+      endsDuringHypercare: supportFacts(support.filter((s) => s.status === "Ends During Hypercare")),
+      unknown: supportFacts(support.filter((s) => s.status === "Unknown")),
+      recommendedVersion: target?.version,
+      upgradeHint: target ? ` Plan an upgrade to v${target.version} or later.` : "",
+    },
+  };
+}
+
+/**
+ * Score a customer's environment setup against a readiness rule pack.
+ * Starts at 100 and deducts each fired rule's weight. Uses the pack for the
+ * customer's engagement type unless one is given explicitly.
+ */
+export function assessEnvironmentReadiness(customer: Customer, pack?: RulePack): EnvironmentReadiness {
+  const activePack = pack ?? rulePackForCustomer(customer);
+  const phase = currentPhase(customer);
+  const facts = buildReadinessFacts(customer);
+  const { score, findings: results, skippedRules } = evaluateRulePack(activePack, facts, phase);
+
+  const findings = results.map((r) => `${r.severity.toUpperCase()}: ${r.message}`);
+  if (findings.length === 0) {
+    findings.push("All environment checks passed.");
+  }
+
+  const label =
+    score >= 90
+      ? "Excellent"
+      : score >= 70
+        ? "Good"
+        : score >= 50
+          ? "Needs Attention"
+          : "Critical Issues";
+
+  return {
+    score,
+    label,
+    environmentCount: (facts.environments as { count: number }).count,
+    findings,
+    rulePack: { id: activePack.id, name: activePack.name, version: activePack.version },
+    phase,
+    results,
+    skippedRules,
+    topology: validateTopology(customer),
+  };
+}
@@ -0,0 +1,135 @@
+import { normalizeText } from "../utils/fuzzyMatch.js";
+import type { Customer, D365Environment } from "../types/index.js";
+
+/** Azure region display name → data residency geography */
+export const AZURE_REGION_GEOGRAPHY: Record<string, string> = {
+  "East US": "United States",
+  "East US 2": "United States",
+  "Central US": "United States",
+  "North Central US": "United States",
+  "South Central US": "United States",
+  "West Central US": "United States",
+  "West US": "United States",
+  "West US 2": "United States",
+  "West US 3": "United States",
+  "Canada Central": "Canada",
+  "Canada East": "Canada",
+  "Brazil South": "Brazil",
+  "North Europe": "Europe",
+  "West Europe": "Europe",
+  "Sweden Central": "Europe",
+  "Italy North": "Europe",
+  "Spain Central": "Europe",
+  "Poland Central": "Europe",
+  "France Central": "France",
+  "France South": "France",
+  "Germany West Central": "Germany",
+  "Germany North": "Germany",
+  "Switzerland North": "Switzerland",
+  "Switzerland West": "Switzerland",
+  "Norway East": "Norway",
+  "Norway West": "Norway",
+  "UK South": "United Kingdom",
+  "UK West": "United Kingdom",
+  "UAE North": "United Arab Emirates",
+  "South Africa North": "South Africa",
+  "East Asia": "Asia Pacific",
+  "Southeast Asia": "Asia Pacific",
+  "Australia East": "Australia",
+  "Australia Southeast": "Australia",
+  "Japan East": "Japan",
+  "Japan West": "Japan",
+  "Central India": "India",
+  "South India": "India",
+  "Korea Central": "Korea",
+  "Korea South": "Korea",
+};
+
+export const GEOGRAPHIES: string[] = Array.from(new Set(Object.values(AZURE_REGION_GEOGRAPHY))).sort();
+
+/**
+ * Geographies a customer's data may reside in, by customer region. Used
+ * when the customer has no allowedGeographies override.
+ */
+const CUSTOMER_REGION_GEOGRAPHIES: Record<string, string[]> = {
+  "North America": ["United States", "Canada"],
+  "South America": ["Brazil"],
+  "Latin America": ["Brazil", "United States"],
+  Europe: ["Europe", "France", "Germany", "Switzerland", "Norway", "United Kingdom"],
+  "Middle East": ["United Arab Emirates"],
+  Africa: ["South Africa"],
+  "Asia Pacific": ["Asia Pacific", "Australia", "Japan", "India", "Korea"],
+};
+
+/** Compact key so display and programmatic names match ("East US 2" = "eastus2") */
+function regionKey(region: string): string {
+  return normalizeText(region).replace(/ /g, "");
+}
+
+const REGION_KEYS = new Map(Object.keys(AZURE_REGION_GEOGRAPHY).map((name) => [regionKey(name), name]));
+
+/** Canonical Azure region for a display or programmatic name */
+export function resolveAzureRegion(region: string): string | undefined {
+  return REGION_KEYS.get(regionKey(region));
+}
+
+export function geographyForRegion(region: string): string | undefined {
+  const resolved = resolveAzureRegion(region);
+  return resolved ? AZURE_REGION_GEOGRAPHY[resolved] : undefined;
+}
+
+export function resolveGeography(name: string): string | undefined {
+  const key = normalizeText(name);
+  return GEOGRAPHIES.find((g) => normalizeText(g) === key);
+}
+
+/**
+ * Geographies the customer's environments must stay in: the per-customer
+ * override when set, otherwise the default for the customer region. Empty
+ * when the customer region is not mapped.
+ */
+export function allowedGeographies(customer: Customer): string[] {
+  if (customer.allowedGeographies && customer.allowedGeographies.length > 0) {
+    return customer.allowedGeographies;
+  }
+  const key = normalizeText(customer.region);
+  const match = Object.entries(CUSTOMER_REGION_GEOGRAPHIES).find(([region]) => normalizeText(region) === key);
+  if (match) return match[1];
+  const geography = resolveGeography(customer.region);
+  return geography ? [geography] : [];
+}
+
+export interface ResidencyCheck {
+  allowed: string[];
+  /** Environments in a geography outside the allowed list */
+  outside: { environment: D365Environment; geography: string }[];
+  /** Environments whose region is not in the map */
+  unmapped: D365Environment[];
+}
+
+export function checkDataResidency(customer: Customer, environments: D365Environment[]): ResidencyCheck {
+  const allowed = allowedGeographies(customer);
+  const outside: ResidencyCheck["outside"] = [];
+  const unmapped: D365Environment[] = [];
+  for (const environment of environments) {
+    const geography = geographyForRegion(environment.region);
+    if (!geography) {
+      unmapped.push(environment);
+    } else if (allowed.length > 0 && !allowed.includes(geography)) {
+      outside.push({ environment, geography });
+    }
+  }
+  return { allowed, outside, unmapped };
+}
+
+/** Parse a comma-separated geography list to canonical names */
+export function parseGeographies(input: string): { geographies: string[]; unrecognized: string[] } {
+  const geographies: string[] = [];
+  const unrecognized: string[] = [];
+  for (const entry of input.split(",").map((g) => g.trim()).filter(Boolean)) {
+    const geography = resolveGeography(entry);
+    if (!geography) unrecognized.push(entry);
+    else if (!geographies.includes(geography)) geographies.push(geography);
+  }
+  return { geographies, unrecognized };
+}
@@ -0,0 +1,205 @@
+import { store } from "./store.js";
+import type {
+  ChecklistItem,
+  ChecklistPhase,
+  Customer,
+  CustomerStatus,
+  D365Environment,
+  GateResult,
+  TransitionEvaluation,
+} from "../types/index.js";
+
+interface GateContext {
+  customer: Customer;
+  environments: D365Environment[];
+  checklist: ChecklistItem[];
+}
+
+interface Gate {
+  id: string;
+  description: string;
+  /** Returns null when the gate passes, otherwise a short explanation */
+  check: (ctx: GateContext) => string | null;
+}
+
+const DONE_STATUSES = ["Completed", "N/A"];
+
+function openItems(items: ChecklistItem[]): ChecklistItem[] {
+  return items.filter((i) => !DONE_STATUSES.includes(i.status));
+}
+
+function listTitles(items: ChecklistItem[]): string {
+  const titles = items.slice(0, 3).map((i) => `${i.title} (${i.id})`);
+  return items.length > 3 ? `${titles.join(", ")} and ${items.length - 3} more` : titles.join(", ");
+}
+
+// ── Gate definitions ──
+
+const architectAssigned: Gate = {
+  id: "architect-assigned",
+  description: "A solution architect is assigned",
+  check: ({ customer }) => (customer.assignedArchitect ? null : "No assignedArchitect set."),
+};
+
+const goLiveDatePlanned: Gate = {
+  id: "golive-date-planned",
+  description: "A go-live date is planned",
+  check: ({ customer }) => (customer.goLiveDate ? null : "No goLiveDate set."),
+};
+
+const productionEnvironment: Gate = {
+  id: "production-environment",
+  description: "An active Production environment exists",
+  check: ({ environments }) =>
+    environments.some((e) => e.type === "Production" && e.status === "Active")
+      ? null
+      : "No active Production environment.",
+};
+
+const uatEnvironment: Gate = {
+  id: "uat-environment",
+  description: "An active UAT environment exists",
+  check: ({ environments }) =>
+    environments.some((e) => e.type === "UAT" && e.status === "Active")
+      ? null
+      : "No active UAT environment.",
+};
+
+const noBlockedPrepareItems: Gate = {
+  id: "no-blocked-prepare-items",
+  description: "No Blocked checklist items in the Prepare phase",
+  check: ({ checklist }) => {
+    const blocked = checklist.filter((i) => i.phase === "Prepare" && i.status === "Blocked");
+    return blocked.length === 0 ? null : `Blocked: ${listTitles(blocked)}.`;
+  },
+};
+
+const prepareComplete: Gate = {
+  id: "prepare-complete",
+  description: "All Prepare-phase checklist items are Completed or N/A",
+  check: ({ checklist }) => {
+    const open = openItems(checklist.filter((i) => i.phase === "Prepare"));
+    return open.length === 0 ? null : `Open: ${listTitles(open)}.`;
+  },
+};
+
+const noBlockedItems: Gate = {
+  id: "no-blocked-items",
+  description: "No Blocked checklist items in any phase",
+  check: ({ checklist }) => {
+    const blocked = checklist.filter((i) => i.status === "Blocked");
+    return blocked.length === 0 ? null : `Blocked: ${listTitles(blocked)}.`;
+  },
+};
+
+const checklistComplete: Gate = {
+  id: "checklist-complete",
+  description: "All checklist items are Completed or N/A",
+  check: ({ checklist }) => {
+    const open = openItems(checklist);
+    return open.length === 0 ? null : `Open: ${listTitles(open)}.`;
+  },
+};
+
+/**
+ * Engagement lifecycle: allowed transitions from each status and the gates
+ * that must pass before moving forward. Backward moves (e.g. a postponed
+ * go-live) are allowed without gates.
+ */
+const LIFECYCLE: Record<CustomerStatus, Partial<Record<CustomerStatus, Gate[]>>> = {
+  Onboarding: {
+    Active: [architectAssigned, goLiveDatePlanned],
+  },
+  Active: {
+    Onboarding: [],
+    "Go-Live": [
+      goLiveDatePlanned,
+      productionEnvironment,
+      uatEnvironment,
+      noBlockedPrepareItems,
+      prepareComplete,
+    ],
+  },
+  "Go-Live": {
+    Active: [],
+    "Post-Go-Live": [productionEnvironment, noBlockedItems],
+  },
+  "Post-Go-Live": {
+    Completed: [checklistComplete],
+  },
+  Completed: {
+    "Post-Go-Live": [],
+  },
+};
+
+/** Statuses reachable from the given status */
+export function allowedTransitions(from: CustomerStatus): CustomerStatus[] {
+  return Object.keys(LIFECYCLE[from]) as CustomerStatus[];
+}
+
+/** Check whether a customer may move to a new status and which gates fail */
+export function evaluateTransition(customer: Customer, to: CustomerStatus): TransitionEvaluation {
+  const gatesForTransition = LIFECYCLE[customer.status][to];
+  if (!gatesForTransition) {
+    return { from: customer.status, to, allowed: false, gates: [], unmetGates: [] };
+  }
+
+  const ctx: GateContext = {
+    customer,
+    environments: store.environments.filter((e) => e.customerId === customer.id),
+    checklist: store.checklists.get(customer.id) || [],
+  };
+
+  const gates: GateResult[] = gatesForTransition.map((gate) => {
+    const detail = gate.check(ctx);
+    return {
+      id: gate.id,
+      description: gate.description,
+      passed: detail === null,
+      ...(detail !== null && { detail }),
+    };
+  });
+
+  return {
+    from: customer.status,
+    to,
+    allowed: true,
+    gates,
+    unmetGates: gates.filter((g) => !g.passed),
+  };
+}
+
+/** Implementation phase implied by the engagement status */
+const PHASE_BY_STATUS: Record<CustomerStatus, ChecklistPhase> = {
+  Onboarding: "Initiate",
+  Active: "Implement",
+  "Go-Live": "Prepare",
+  "Post-Go-Live": "Operate",
+  Completed: "Operate",
+};
+
+/**
+ * The customer's current implementation phase: the tracked phase if set,
+ * otherwise the one implied by the engagement status.
+ */
+export function currentPhase(customer: Customer): ChecklistPhase {
+  return customer.currentPhase ?? PHASE_BY_STATUS[customer.status];
+}
+
+const PHASE_ORDER: ChecklistPhase[] = ["Initiate", "Implement", "Prepare", "Operate"];
+
+/** Negative when `a` comes before `b` in the implementation, positive when after */
+export function comparePhases(a: ChecklistPhase, b: ChecklistPhase): number {
+  return PHASE_ORDER.indexOf(a) - PHASE_ORDER.indexOf(b);
+}
+
+/**
+ * The tracked phase after moving to `status`: the phase the new status
+ * implies when it is later than the tracked one, so the phase keeps up with
+ * the engagement. Returns undefined when the tracked phase should stay.
+ */
+export function phaseForStatusChange(customer: Customer, status: CustomerStatus): ChecklistPhase | undefined {
+  if (customer.currentPhase === undefined) return undefined;
+  const implied = PHASE_BY_STATUS[status];
+  return comparePhases(implied, customer.currentPhase) > 0 ? implied : undefined;
+}
@@ -0,0 +1,226 @@
+import type { D365Module } from "../types/index.js";
+
+/**
+ * Canonical D365 Finance & Operations module catalog. Customer module lists,
+ * best practices, and every module filter resolve through this registry so
+ * "SCM", "Supply Chain" and "Supply Chain Management" mean the same thing.
+ */
+export const MODULE_CATALOG: D365Module[] = [
+  // ── Finance ──
+  {
+    name: "Finance",
+    aliases: ["Financials", "FIN", "Financial Management", "Dynamics 365 Finance"],
+    description: "Core financial management for D365 F&O.",
+  },
+  {
+    name: "General Ledger",
+    aliases: ["GL", "Ledger"],
+    parent: "Finance",
+    description: "Chart of accounts, financial dimensions, journals, and period close.",
+  },
+  {
+    name: "Accounts Payable",
+    aliases: ["AP", "Payables", "Vendor Invoicing"],
+    parent: "Finance",
+    description: "Vendor invoices, payments, and vendor management.",
+  },
+  {
+    name: "Accounts Receivable",
+    aliases: ["AR", "Receivables", "Credit and Collections"],
+    parent: "Finance",
+    description: "Customer invoicing, payments, credit, and collections.",
+  },
+  {
+    name: "Cash and Bank Management",
+    aliases: ["Cash Management", "Bank Management", "Bank Reconciliation"],
+    parent: "Finance",
+    description: "Bank accounts, reconciliation, and cash-flow forecasting.",
+  },
+  {
+    name: "Fixed Assets",
+    aliases: ["FA", "Asset Accounting"],
+    parent: "Finance",
+    description: "Fixed asset acquisition, depreciation, and disposal.",
+  },
+  {
+    name: "Budgeting",
+    aliases: ["Budget Planning", "Budget Control"],
+    parent: "Finance",
+    description: "Budget planning, registers, and budget control.",
+  },
+  {
+    name: "Expense Management",
+    aliases: ["Expenses", "Travel and Expense", "T&E"],
+    parent: "Finance",
+    description: "Employee expense reports, policies, and reimbursement.",
+  },
+  {
+    name: "Project Management and Accounting",
+    aliases: ["PMA", "Project Accounting"],
+    parent: "Finance",
+    description: "Project contracts, budgets, invoicing, and revenue recognition.",
+  },
+
+  // ── Supply Chain Management ──
+  {
+    name: "Supply Chain Management",
+    aliases: ["SCM", "Supply Chain", "Dynamics 365 Supply Chain Management"],
+    description: "Core supply chain and operations management for D365 F&O.",
+  },
+  {
+    name: "Inventory Management",
+    aliases: ["Inventory", "Inventory Control"],
+    parent: "Supply Chain Management",
+    description: "Inventory transactions, counting, and on-hand management.",
+  },
+  {
+    name: "Warehouse Management",
+    aliases: ["WMS", "WHS", "Warehousing", "Advanced Warehousing"],
+    parent: "Supply Chain Management",
+    description: "Warehouse locations, work, waves, and mobile device processes.",
+  },
+  {
+    name: "Transportation Management",
+    aliases: ["TMS", "Transportation", "Freight"],
+    parent: "Supply Chain Management",
+    description: "Carriers, rating, routing, and freight reconciliation.",
+  },
+  {
+    name: "Production Control",
+    aliases: ["Manufacturing", "Production", "Shop Floor Control"],
+    parent: "Supply Chain Management",
+    description: "Production orders, routes, BOMs, and shop floor execution.",
+  },
+  {
+    name: "Procurement and Sourcing",
+    aliases: ["Procurement", "Purchasing", "Sourcing"],
+    parent: "Supply Chain Management",
+    description: "Purchase requisitions, RFQs, purchase orders, and vendor collaboration.",
+  },
+  {
+    name: "Sales and Marketing",
+    aliases: ["Sales", "Order Management"],
+    parent: "Supply Chain Management",
+    description: "Sales quotations, sales orders, pricing, and trade agreements.",
+  },
+  {
+    name: "Master Planning",
+    aliases: ["MRP", "Planning Optimization", "Planning"],
+    parent: "Supply Chain Management",
+    description: "Demand forecasting, master planning, and planned orders.",
+  },
+  {
+    name: "Asset Management",
+    aliases: ["Enterprise Asset Management", "EAM", "Maintenance Management"],
+    parent: "Supply Chain Management",
+    description: "Maintenance of production and facility assets.",
+  },
+  {
+    name: "Product Information Management",
+    aliases: ["PIM", "Product Management", "Engineering Change Management"],
+    parent: "Supply Chain Management",
+    description: "Products, variants, released products, and engineering changes.",
+  },
+
+  // ── Other applications ──
+  {
+    name: "Commerce",
+    aliases: ["Retail", "Retail and Commerce", "Dynamics 365 Commerce", "POS"],
+    description: "Omnichannel retail, store operations, POS, and e-commerce.",
+  },
+  {
+    name: "Human Resources",
+    aliases: ["HR", "Human Capital Management", "HCM", "Dynamics 365 Human Resources"],
+    description: "Workers, positions, benefits, and leave.",
+  },
+  {
+    name: "Project Operations",
+    aliases: ["ProjOps", "Dynamics 365 Project Operations"],
+    description: "Project-based services: quoting, planning, time, and billing.",
+  },
+  {
+    name: "General",
+    aliases: ["Cross-Module", "Platform", "Cross-Functional"],
+    description: "Guidance that applies across all modules (performance, ALM, data migration, go-live).",
+  },
+];
+
+/** Lower-case, punctuation-free key with common product prefixes removed */
+function lookupKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/^(microsoft )?(dynamics 365|d365)\b/, "")
+    .trim();
+}
+
+const INDEX = new Map<string, D365Module>();
+for (const module of MODULE_CATALOG) {
+  INDEX.set(lookupKey(module.name), module);
+  for (const alias of module.aliases) {
+    INDEX.set(lookupKey(alias), module);
+  }
+}
+
+/** Resolve a module name or alias to its catalog entry */
+export function resolveModule(value: string): D365Module | undefined {
+  return INDEX.get(lookupKey(value));
+}
+
+/** The module plus every ancestor, nearest first */
+export function moduleLineage(name: string): string[] {
+  const lineage: string[] = [];
+  let current = resolveModule(name);
+  while (current && !lineage.includes(current.name)) {
+    lineage.push(current.name);
+    current = current.parent ? resolveModule(current.parent) : undefined;
+  }
+  return lineage;
+}
+
+/** Direct sub-modules of a module */
+export function childModules(name: string): D365Module[] {
+  const module = resolveModule(name);
+  return module ? MODULE_CATALOG.filter((m) => m.parent === module.name) : [];
+}
+
+/**
+ * True if `moduleName` is the filter module or one of its sub-modules —
+ * e.g. a "SCM" filter matches "Warehouse Management". Values missing from
+ * the catalog fall back to a case-insensitive substring match.
+ */
+export function moduleMatchesFilter(moduleName: string, filter: string): boolean {
+  const target = resolveModule(filter);
+  if (!target || !resolveModule(moduleName)) {
+    return moduleName.toLowerCase().includes(filter.toLowerCase());
+  }
+  return moduleLineage(moduleName).includes(target.name);
+}
+
+/**
+ * Normalize a comma-separated list (or array) of modules to canonical names,
+ * dropping blanks and duplicates. Entries not in the catalog are kept as
+ * typed and reported in `unrecognized`.
+ */
+export function normalizeModules(modules: string | string[]): {
+  modules: string[];
+  unrecognized: string[];
+} {
+  const raw = Array.isArray(modules) ? modules : modules.split(",");
+  const result: string[] = [];
+  const unrecognized: string[] = [];
+
+  for (const entry of raw) {
+    const trimmed = entry.trim().replace(/\s+/g, " ");
+    if (!trimmed) continue;
+
+    const name = resolveModule(trimmed)?.name ?? trimmed;
+    if (result.some((m) => m.toLowerCase() === name.toLowerCase())) continue;
+
+    if (!resolveModule(trimmed)) unrecognized.push(trimmed);
+    result.push(name);
+  }
+
+  return { modules: result, unrecognized };
+}
@@ -0,0 +1,180 @@
+import { store } from "./store.js";
+import { currentPhase } from "./lifecycle.js";
+import { isDone } from "./checklistDependencies.js";
+import { normalizeText } from "../utils/fuzzyMatch.js";
+import type {
+  ChecklistItem,
+  ChecklistPhase,
+  Customer,
+  GateResult,
+  PhaseGateEvaluation,
+} from "../types/index.js";
+
+interface PhaseDeliverable {
+  id: string;
+  name: string;
+  /** Template item keys or title phrases identifying the checklist item */
+  match: string[];
+  /** Only required for these engagement types (all when omitted) */
+  engagementTypes?: Customer["engagementType"][];
+}
+
+interface PhaseExitCriteria {
+  phase: ChecklistPhase;
+  /** Categories whose items in the phase must all be Completed or N/A */
+  requiredCategories: string[];
+  /** Items that must be Completed with evidence attached */
+  deliverables: PhaseDeliverable[];
+}
+
+/** Exit criteria per phase, in phase order */
+const PHASE_EXIT_CRITERIA: PhaseExitCriteria[] = [
+  {
+    phase: "Initiate",
+    requiredCategories: ["Project Governance"],
+    deliverables: [
+      { id: "project-scope", name: "Project scope and objectives", match: ["project-scope", "project scope"] },
+      { id: "governance-model", name: "Governance model", match: ["governance-model", "governance model"] },
+    ],
+  },
+  {
+    phase: "Implement",
+    requiredCategories: ["Solution Design", "Data Migration", "Integration"],
+    deliverables: [
+      { id: "fit-gap", name: "Fit-gap analysis", match: ["fit-gap", "fit gap"] },
+      {
+        id: "data-migration-strategy",
+        name: "Data migration strategy",
+        match: ["data-migration-strategy", "data migration strategy"],
+      },
+      {
+        id: "solution-blueprint-review",
+        name: "Solution Blueprint Review",
+        match: ["solution-blueprint-review", "solution blueprint review"],
+        engagementTypes: ["FastTrack"],
+      },
+    ],
+  },
+  {
+    phase: "Prepare",
+    requiredCategories: ["Testing", "Cutover"],
+    deliverables: [
+      { id: "uat", name: "UAT sign-off", match: ["uat", "execute uat"] },
+      { id: "cutover-plan", name: "Cutover plan", match: ["cutover-plan", "cutover plan"] },
+      {
+        id: "go-live-readiness-review",
+        name: "Go-Live Readiness Review",
+        match: ["go-live-readiness-review", "go live readiness review"],
+        engagementTypes: ["FastTrack"],
+      },
+    ],
+  },
+  {
+    phase: "Operate",
+    requiredCategories: ["Support"],
+    deliverables: [
+      { id: "hypercare", name: "Hypercare support model", match: ["hypercare", "hypercare support model"] },
+    ],
+  },
+];
+
+/** The phase after the given one, or undefined for Operate */
+export function nextPhase(phase: ChecklistPhase): ChecklistPhase | undefined {
+  const index = PHASE_EXIT_CRITERIA.findIndex((c) => c.phase === phase);
+  return PHASE_EXIT_CRITERIA[index + 1]?.phase;
+}
+
+function listTitles(items: ChecklistItem[]): string {
+  const titles = items.slice(0, 3).map((i) => `${i.title} (${i.id})`);
+  return items.length > 3 ? `${titles.join(", ")} and ${items.length - 3} more` : titles.join(", ");
+}
+
+function matchesDeliverable(item: ChecklistItem, deliverable: PhaseDeliverable): boolean {
+  const key = item.templateRef?.split("#")[1];
+  // Whole words only, so "uat" does not match "evaluate"
+  const title = ` ${normalizeText(item.title)} `;
+  return deliverable.match.some((m) => m === key || title.includes(` ${normalizeText(m)} `));
+}
+
+function deliverableGate(items: ChecklistItem[], deliverable: PhaseDeliverable): GateResult {
+  const candidates = items.filter((i) => matchesDeliverable(i, deliverable));
+  const proven = candidates.find((i) => i.status === "Completed" && (i.evidence?.length ?? 0) > 0);
+  let detail: string | undefined;
+  if (!proven) {
+    const completed = candidates.find((i) => i.status === "Completed");
+    detail =
+      candidates.length === 0
+        ? "No matching checklist item."
+        : completed
+          ? `${completed.title} (${completed.id}) is Completed but has no evidence attached.`
+          : `${candidates[0].title} (${candidates[0].id}) is ${candidates[0].status}.`;
+  }
+  return {
+    id: `deliverable:${deliverable.id}`,
+    description: `Deliverable present: ${deliverable.name} (Completed with evidence)`,
+    passed: !!proven,
+    ...(detail && { detail }),
+  };
+}
+
+/**
+ * Evaluate the exit criteria for a phase (the customer's current phase by
+ * default): required categories complete, no Blocked items, and mandatory
+ * deliverables completed with evidence.
+ */
+export function evaluatePhaseGate(customer: Customer, phase = currentPhase(customer)): PhaseGateEvaluation {
+  const criteria = PHASE_EXIT_CRITERIA.find((c) => c.phase === phase)!;
+  const items = (store.checklists.get(customer.id) || []).filter((i) => i.phase === phase);
+
+  const gates: GateResult[] = criteria.requiredCategories.map((category) => {
+    const inCategory = items.filter((i) => normalizeText(i.category) === normalizeText(category));
+    const open = inCategory.filter((i) => !isDone(i));
+    const detail =
+      inCategory.length === 0
+        ? `No ${category} items in the ${phase} phase.`
+        : open.length > 0
+          ? `Open: ${listTitles(open)}.`
+          : undefined;
+    return {
+      id: `category:${normalizeText(category).replace(/ /g, "-")}`,
+      description: `All ${category} items are Completed or N/A`,
+      passed: !detail,
+      ...(detail && { detail }),
+    };
+  });
+
+  const blocked = items.filter((i) => i.status === "Blocked");
+  gates.push({
+    id: "no-blocked-items",
+    description: `No Blocked items in the ${phase} phase`,
+    passed: blocked.length === 0,
+    ...(blocked.length > 0 && { detail: `Blocked: ${listTitles(blocked)}.` }),
+  });
+
+  for (const deliverable of criteria.deliverables) {
+    if (deliverable.engagementTypes && !deliverable.engagementTypes.includes(customer.engagementType)) continue;
+    gates.push(deliverableGate(items, deliverable));
+  }
+
+  const unmetGates = gates.filter((g) => !g.passed);
+  return {
+    phase,
+    nextPhase: nextPhase(phase),
+    passed: unmetGates.length === 0,
+    gates,
+    unmetGates,
+  };
+}
+
+/**
+ * Exit gates for every phase between the customer's current phase and
+ * `target` (exclusive), earliest first; used when a status change moves the
+ * tracked phase forward.
+ */
+export function evaluatePhaseGatesUntil(customer: Customer, target: ChecklistPhase): PhaseGateEvaluation[] {
+  const evaluations: PhaseGateEvaluation[] = [];
+  for (let phase: ChecklistPhase | undefined = currentPhase(customer); phase && phase !== target; phase = nextPhase(phase)) {
+    evaluations.push(evaluatePhaseGate(customer, phase));
+  }
+  return evaluations;
+}
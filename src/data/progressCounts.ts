@@ -0,0 +1,29 @@
+import { todayIso } from "../utils/dates.js";
+import type { ChecklistItem, ChecklistStatus, ProgressSnapshot } from "../types/index.js";
+
+/*
+ * Pure snapshot builders, kept free of store imports so the store can use
+ * them when seeding without an import cycle.
+ */
+
+export const CHECKLIST_STATUSES: ChecklistStatus[] = ["Not Started", "In Progress", "Completed", "Blocked", "N/A"];
+
+export function countStatuses(items: ChecklistItem[]): Record<ChecklistStatus, number> {
+  const counts = Object.fromEntries(CHECKLIST_STATUSES.map((s) => [s, 0])) as Record<ChecklistStatus, number>;
+  for (const item of items) counts[item.status]++;
+  return counts;
+}
+
+export function buildProgressSnapshot(customerId: string, items: ChecklistItem[], date = todayIso()): ProgressSnapshot {
+  const byPhase: ProgressSnapshot["byPhase"] = {};
+  for (const phase of new Set(items.map((i) => i.phase))) {
+    byPhase[phase] = countStatuses(items.filter((i) => i.phase === phase));
+  }
+  return {
+    customerId,
+    date,
+    counts: countStatuses(items),
+    byPhase,
+    capturedAt: new Date().toISOString(),
+  };
+}
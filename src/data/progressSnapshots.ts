@@ -0,0 +1,154 @@
+import { store } from "./store.js";
+import { CHECKLIST_STATUSES, buildProgressSnapshot } from "./progressCounts.js";
+import { addDays, daysBetween, todayIso } from "../utils/dates.js";
+import type { ChecklistPhase, ProgressSnapshot } from "../types/index.js";
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+
+/**
+ * Record today's checklist status counts for a customer, replacing any
+ * earlier snapshot from the same day so each day keeps its final state.
+ * Nothing is recorded once the customer's checklist has been deleted.
+ */
+export function captureProgressSnapshot(customerId: string): ProgressSnapshot | undefined {
+  if (!store.checklists.has(customerId)) return undefined;
+  const snapshot = buildProgressSnapshot(customerId, store.checklists.get(customerId)!);
+  store.progressSnapshots.set(`${customerId}:${snapshot.date}`, snapshot);
+  return snapshot;
+}
+
+/** Remove all of a customer's snapshots; returns how many were removed */
+export function deleteProgressSnapshots(customerId: string): number {
+  const snapshots = store.progressSnapshots.filter((s) => s.customerId === customerId);
+  for (const s of snapshots) store.progressSnapshots.delete(`${customerId}:${s.date}`);
+  return snapshots.length;
+}
+
+/** A customer's snapshots, oldest first */
+export function progressSnapshots(customerId: string): ProgressSnapshot[] {
+  return store.progressSnapshots
+    .filter((s) => s.customerId === customerId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export interface ProgressPoint {
+  date: string;
+  total: number;
+  /** Completed or N/A */
+  done: number;
+  remaining: number;
+}
+
+export interface WeeklyVelocity {
+  /** Monday of the week */
+  weekStart: string;
+  /** Net items finished during the week (negative if items were reopened or added as done) */
+  completed: number;
+}
+
+export interface ProgressTrend {
+  phase?: ChecklistPhase;
+  /** One point per day; days without a snapshot carry the previous one forward */
+  points: ProgressPoint[];
+  weekly: WeeklyVelocity[];
+  /** Items finished per week, averaged over the trailing velocity window */
+  averageVelocity: number;
+  velocityWeeks: number;
+  remaining: number;
+  /** Projected date the remaining items are done; undefined without positive velocity */
+  forecastDate?: string;
+}
+
+function pointFor(snapshot: ProgressSnapshot, date: string, phase?: ChecklistPhase): ProgressPoint {
+  const counts = phase ? snapshot.byPhase[phase] : snapshot.counts;
+  const total = counts ? CHECKLIST_STATUSES.reduce((sum, s) => sum + counts[s], 0) : 0;
+  const done = counts ? counts.Completed + counts["N/A"] : 0;
+  return { date, total, done, remaining: total - done };
+}
+
+function mondayOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+/**
+ * Burndown and velocity from a customer's snapshots (oldest first), for all
+ * items or a single phase, over the last `days` days up to `today`.
+ */
+export function computeProgressTrend(
+  snapshots: ProgressSnapshot[],
+  options: { phase?: ChecklistPhase; days?: number; velocityWeeks?: number; today?: string } = {}
+): ProgressTrend {
+  const { phase, days = 90, velocityWeeks = 4, today = todayIso() } = options;
+  const windowStart = addDays(today, -(days - 1));
+  const first = snapshots[0]?.date ?? today;
+  const start = first > windowStart ? first : windowStart;
+
+  const points: ProgressPoint[] = [];
+  let index = -1;
+  for (let date = start; date <= today; date = addDays(date, 1)) {
+    while (index + 1 < snapshots.length && snapshots[index + 1].date <= date) index++;
+    if (index >= 0) points.push(pointFor(snapshots[index], date, phase));
+  }
+
+  // Looks at all snapshots, not just the display window, so velocity keeps its full history
+  const doneOn = (date: string): number => {
+    let latest: ProgressSnapshot | undefined;
+    for (const s of snapshots) {
+      if (s.date > date) break;
+      latest = s;
+    }
+    return latest ? pointFor(latest, date, phase).done : 0;
+  };
+
+  const weekly: WeeklyVelocity[] = [];
+  if (points.length > 0) {
+    for (let week = mondayOf(points[0].date); week <= today; week = addDays(week, 7)) {
+      const end = addDays(week, 6) < today ? addDays(week, 6) : today;
+      const before = week > first ? doneOn(addDays(week, -1)) : pointFor(snapshots[0], first, phase).done;
+      weekly.push({ weekStart: week, completed: doneOn(end) - before });
+    }
+  }
+
+  const last = points.at(-1);
+  const remaining = last?.remaining ?? 0;
+  // Trailing window, shortened when there is less history
+  const windowDays = Math.min(velocityWeeks * 7, snapshots.length > 0 ? daysBetween(first, today) : 0);
+  const averageVelocity =
+    windowDays > 0 ? ((doneOn(today) - doneOn(addDays(today, -windowDays))) / windowDays) * 7 : 0;
+
+  let forecastDate: string | undefined;
+  if (remaining === 0 && last) {
+    forecastDate = today;
+  } else if (averageVelocity > 0) {
+    forecastDate = addDays(today, Math.ceil((remaining / averageVelocity) * 7));
+  }
+
+  return {
+    phase,
+    points,
+    weekly,
+    averageVelocity: Math.round(averageVelocity * 10) / 10,
+    velocityWeeks: Math.round((windowDays / 7) * 10) / 10,
+    remaining,
+    forecastDate,
+  };
+}
+
+/** Text sparkline of a series, downsampled to at most `width` characters */
+export function sparkline(values: number[], width = 30): string {
+  if (values.length === 0) return "";
+  const step = values.length > width ? values.length / width : 1;
+  const sampled: number[] = [];
+  for (let i = 0; i < values.length && sampled.length < width; i += step) {
+    sampled.push(values[Math.floor(i)]);
+  }
+  // Always end on the latest value
+  sampled[sampled.length - 1] = values[values.length - 1];
+
+  const min = Math.min(...sampled);
+  const max = Math.max(...sampled);
+  return sampled
+    .map((v) => SPARK_CHARS[max === min ? 0 : Math.round(((v - min) / (max - min)) * (SPARK_CHARS.length - 1))])
+    .join("");
+}
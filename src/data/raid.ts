@@ -0,0 +1,80 @@
+import { store } from "./store.js";
+import { recordChange } from "./changeLog.js";
+import type { RaidItem, RaidStatus, RaidType } from "../types/index.js";
+
+export const RAID_TYPES: [RaidType, ...RaidType[]] = ["Risk", "Assumption", "Issue", "Decision"];
+
+export const RAID_STATUSES: [RaidStatus, ...RaidStatus[]] = ["Open", "In Progress", "Resolved", "Closed"];
+
+/** Types scored on probability; issues have already happened and decisions are not scored */
+const PROBABILISTIC_TYPES: RaidType[] = ["Risk", "Assumption"];
+
+export type RaidSeverity = "Critical" | "High" | "Medium" | "Low";
+
+export function usesProbability(type: RaidType): boolean {
+  return PROBABILISTIC_TYPES.includes(type);
+}
+
+export function isRaidClosed(item: RaidItem): boolean {
+  return item.status === "Resolved" || item.status === "Closed";
+}
+
+/**
+ * Probability × impact (1–25). Issues count as certain (probability 5);
+ * decisions and items missing a rating have no score.
+ */
+export function raidScore(item: RaidItem): number | undefined {
+  if (item.type === "Decision" || item.impact === undefined) return undefined;
+  if (item.type === "Issue") return item.impact * 5;
+  return item.probability === undefined ? undefined : item.probability * item.impact;
+}
+
+export function raidSeverity(score: number): RaidSeverity {
+  if (score >= 15) return "Critical";
+  if (score >= 10) return "High";
+  if (score >= 5) return "Medium";
+  return "Low";
+}
+
+/** A customer's RAID items, highest score first */
+export function raidItemsForCustomer(customerId: string): RaidItem[] {
+  return store.raidItems
+    .filter((r) => r.customerId === customerId)
+    .sort((a, b) => (raidScore(b) ?? -1) - (raidScore(a) ?? -1) || a.id.localeCompare(b.id));
+}
+
+/** Errors for linked checklist item IDs that do not exist on the customer's checklist */
+export function validateRaidLinks(customerId: string, itemIds: string[]): string[] {
+  const checklist = store.checklists.get(customerId) || [];
+  return itemIds
+    .filter((id) => !checklist.some((i) => i.id === id))
+    .map((id) => `linked checklist item ${id} not found.`);
+}
+
+/** Drop a removed checklist item from the customer's RAID links; returns the RAID IDs changed */
+export function unlinkRaidItems(customerId: string, itemId: string, changedBy: string): string[] {
+  const linked = store.raidItems.filter((r) => r.customerId === customerId && !!r.linkedItems?.includes(itemId));
+  for (const raid of linked) {
+    const before = { ...raid };
+    raid.linkedItems = raid.linkedItems!.filter((id) => id !== itemId);
+    if (raid.linkedItems.length === 0) delete raid.linkedItems;
+    raid.updatedAt = new Date().toISOString();
+    store.raidItems.set(raid.id, raid);
+    recordChange({
+      entityType: "raidItem",
+      entityId: raid.id,
+      customerId,
+      action: "update",
+      before,
+      after: raid,
+      changedBy,
+      reason: `Linked checklist item ${itemId} removed`,
+    });
+  }
+  return linked.map((r) => r.id);
+}
+
+export function formatRaidScore(item: RaidItem): string {
+  const score = raidScore(item);
+  return score === undefined ? "—" : `${score} (${raidSeverity(score)})`;
+}
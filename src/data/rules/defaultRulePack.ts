@@ -0,0 +1,152 @@
+import type { RulePack } from "../../types/index.js";
+
+/**
+ * Built-in FastTrack environment readiness rules. Custom packs loaded from
+ * FASTTRACK_RULE_PACKS use the same shape in JSON or YAML.
+ */
+export const DEFAULT_RULE_PACK: RulePack = {
+  id: "fasttrack-default",
+  name: "FastTrack Environment Readiness",
+  version: "1.2.1",
+  description: "Baseline topology, version consistency, and service update support checks.",
+  rules: [
+    {
+      id: "no-production",
+      when: { fact: "environments.byType.Production", op: "eq", value: 0 },
+      severity: "Critical",
+      weight: 30,
+      message: "No Production environment configured.",
+    },
+    {
+      id: "no-uat",
+      when: { not: { fact: "environments.byPurpose.UAT", op: "gt", value: 0 } },
+      severity: "High",
+      weight: 20,
+      message: "No UAT environment configured. UAT is required before go-live.",
+    },
+    {
+      id: "no-sandbox",
+      when: { fact: "environments.byType.Sandbox", op: "eq", value: 0 },
+      severity: "Medium",
+      weight: 10,
+      message: "No Sandbox environment configured for development/testing.",
+    },
+    {
+      id: "topology-capacity-gap",
+      // A Production or UAT environment that is missing outright is already scored by no-production and no-uat
+      when: {
+        any: [
+          { fact: "topology.shortfalls.count", op: "gt", value: 0 },
+          { fact: "topology.absent.ids", op: "contains", value: "dev-test" },
+          { fact: "topology.absent.ids", op: "contains", value: "data-migration" },
+          { fact: "topology.absent.ids", op: "contains", value: "performance-testing" },
+        ],
+      },
+      severity: "High",
+      weight: 10,
+      message:
+        "Missing environment capacity for the {{customer.phase}} phase: {{topology.gaps.list}}.",
+    },
+    {
+      id: "data-residency-production",
+      when: { fact: "residency.production.count", op: "gt", value: 0 },
+      severity: "Critical",
+      weight: 20,
+      message:
+        "Production hosted outside the customer's allowed geographies ({{residency.allowedGeographies}}): {{residency.production.list}}.",
+    },
+    {
+      id: "data-residency-non-production",
+      when: { fact: "residency.nonProduction.count", op: "gt", value: 0 },
+      severity: "High",
+      weight: 10,
+      message:
+        "Non-production environments outside the customer's allowed geographies ({{residency.allowedGeographies}}): {{residency.nonProduction.list}}. Sandboxes often hold copies of production data.",
+    },
+    {
+      id: "data-residency-unchecked",
+      when: {
+        all: [
+          { fact: "residency.checked", op: "eq", value: false },
+          { fact: "environments.liveCount", op: "gt", value: 0 },
+        ],
+      },
+      severity: "Info",
+      weight: 0,
+      message:
+        "Customer region \"{{customer.region}}\" is not mapped to any geography; set allowedGeographies to check data residency.",
+    },
+    {
+      id: "region-not-mapped",
+      when: { fact: "residency.unmapped.count", op: "gt", value: 0 },
+      severity: "Info",
+      weight: 0,
+      message: "Region not in the Azure geography map for {{residency.unmapped.list}}; data residency cannot be checked.",
+    },
+    {
+      id: "version-mismatch",
+      when: { fact: "environments.versionCount", op: "gt", value: 1 },
+      severity: "Medium",
+      weight: 15,
+      message:
+        "Version mismatch across environments: {{environments.versions}}. Ensure all environments are on the same version before go-live.",
+    },
+    {
+      id: "prod-uat-version-mismatch",
+      when: { fact: "environments.prodUatVersionMismatch", op: "eq", value: true },
+      severity: "Medium",
+      weight: 10,
+      message:
+        "Production (v{{environments.productionVersion}}) and UAT (v{{environments.uatVersion}}) are on different versions.",
+    },
+    {
+      id: "unsupported-version",
+      when: { fact: "support.unsupported.count", op: "gt", value: 0 },
+      severity: "Critical",
+      weight: 20,
+      message: "Unsupported version in use: {{support.unsupported.list}}.{{support.upgradeHint}}",
+    },
+    {
+      id: "version-ends-before-go-live",
+      when: { fact: "support.endsBeforeGoLive.count", op: "gt", value: 0 },
+      severity: "High",
+      weight: 10,
+      message:
+        "{{support.endsBeforeGoLive.list}} will be out of service before go-live on {{customer.goLiveDate}}.{{support.upgradeHint}}",
+      phases: ["Initiate", "Implement", "Prepare"],
+    },
+    {
+      id: "version-ends-during-hypercare",
+      when: { fact: "support.endsDuringHypercare.count", op: "gt", value: 0 },
+      severity: "Medium",
+      weight: 5,
+      message:
+        "{{support.endsDuringHypercare.list}} will go out of service during hypercare after go-live on {{customer.goLiveDate}}.{{support.upgradeHint}}",
+      phases: ["Initiate", "Implement", "Prepare"],
+    },
+    {
+      id: "version-not-in-catalog",
+      when: { fact: "support.unknown.count", op: "gt", value: 0 },
+      severity: "Info",
+      weight: 0,
+      message:
+        "Version not in the service update catalog for {{support.unknown.list}}; support dates cannot be checked.",
+    },
+    {
+      id: "environments-provisioning",
+      when: { fact: "environments.provisioning.count", op: "gt", value: 0 },
+      severity: "Info",
+      weight: 0,
+      message:
+        "{{environments.provisioning.count}} environment(s) still provisioning: {{environments.provisioning.list}}.",
+    },
+    {
+      id: "decommissioned-environments",
+      when: { fact: "environments.decommissioned.count", op: "gt", value: 0 },
+      severity: "Info",
+      weight: 0,
+      message:
+        "{{environments.decommissioned.count}} decommissioned environment(s) found. Consider cleaning up LCS resources.",
+    },
+  ],
+};
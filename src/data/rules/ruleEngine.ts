@@ -0,0 +1,101 @@
+import type {
+  ChecklistPhase,
+  ReadinessRule,
+  RuleFinding,
+  RulePack,
+  RulePredicate,
+} from "../../types/index.js";
+
+/** Read a value from a nested object by dotted path ("environments.byType.UAT") */
+export function getFact(facts: Record<string, unknown>, path: string): unknown {
+  let current: unknown = facts;
+  for (const segment of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function compare(actual: unknown, op: string, expected: unknown): boolean {
+  switch (op) {
+    case "eq":
+      return actual === expected;
+    case "ne":
+      return actual !== expected;
+    case "gt":
+      return typeof actual === "number" && actual > (expected as number);
+    case "gte":
+      return typeof actual === "number" && actual >= (expected as number);
+    case "lt":
+      return typeof actual === "number" && actual < (expected as number);
+    case "lte":
+      return typeof actual === "number" && actual <= (expected as number);
+    case "in":
+      return Array.isArray(expected) && expected.includes(actual);
+    case "notIn":
+      return Array.isArray(expected) && !expected.includes(actual);
+    case "contains":
+      return Array.isArray(actual)
+        ? actual.includes(expected)
+        : typeof actual === "string" && actual.includes(String(expected));
+    case "exists":
+      return (actual !== undefined && actual !== null && actual !== "") === (expected ?? true);
+    default:
+      return false;
+  }
+}
+
+export function evaluatePredicate(predicate: RulePredicate, facts: Record<string, unknown>): boolean {
+  if ("all" in predicate) return predicate.all.every((p) => evaluatePredicate(p, facts));
+  if ("any" in predicate) return predicate.any.some((p) => evaluatePredicate(p, facts));
+  if ("not" in predicate) return !evaluatePredicate(predicate.not, facts);
+  return compare(getFact(facts, predicate.fact), predicate.op, predicate.value);
+}
+
+/** Fill {{fact.path}} placeholders; arrays are joined with commas */
+export function interpolate(template: string, facts: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = getFact(facts, path);
+    if (value === undefined || value === null) return "";
+    return Array.isArray(value) ? value.join(", ") : String(value);
+  });
+}
+
+export function ruleApplies(rule: ReadinessRule, phase: ChecklistPhase): boolean {
+  return !rule.phases || rule.phases.length === 0 || rule.phases.includes(phase);
+}
+
+export interface PackEvaluation {
+  score: number;
+  findings: RuleFinding[];
+  skippedRules: string[];
+}
+
+/** Evaluate every applicable rule in the pack against the facts */
+export function evaluateRulePack(
+  pack: RulePack,
+  facts: Record<string, unknown>,
+  phase: ChecklistPhase
+): PackEvaluation {
+  const findings: RuleFinding[] = [];
+  const skippedRules: string[] = [];
+  let score = 100;
+
+  for (const rule of pack.rules) {
+    if (!ruleApplies(rule, phase)) {
+      skippedRules.push(rule.id);
+      continue;
+    }
+    if (!evaluatePredicate(rule.when, facts)) continue;
+
+    findings.push({
+      ruleId: rule.id,
+      severity: rule.severity,
+      weight: rule.weight,
+      message: interpolate(rule.message, facts),
+    });
+    score -= rule.weight;
+  }
+
+  return { score: Math.max(0, score), findings, skippedRules };
+}
@@ -0,0 +1,106 @@
+import { basename } from "path";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { listDataFiles, parseDataFile } from "../../utils/dataFiles.js";
+import { DEFAULT_RULE_PACK } from "./defaultRulePack.js";
+import type { Customer, RulePack, RulePredicate } from "../../types/index.js";
+
+const phaseSchema = z.enum(["Initiate", "Implement", "Prepare", "Operate"]);
+
+const predicateSchema: z.ZodType<RulePredicate> = z.lazy(() =>
+  z.union([
+    z.object({
+      fact: z.string().min(1),
+      op: z.enum(["eq", "ne", "gt", "gte", "lt", "lte", "in", "notIn", "contains", "exists"]),
+      value: z.unknown().optional(),
+    }),
+    z.object({ all: z.array(predicateSchema).min(1) }),
+    z.object({ any: z.array(predicateSchema).min(1) }),
+    z.object({ not: predicateSchema }),
+  ])
+);
+
+const rulePackSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  engagementTypes: z.array(z.enum(["FastTrack", "Unified", "Direct"])).optional(),
+  rules: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        description: z.string().optional(),
+        when: predicateSchema,
+        severity: z.enum(["Critical", "High", "Medium", "Low", "Info"]),
+        weight: z.number().min(0).max(100),
+        message: z.string().min(1),
+        phases: z.array(phaseSchema).optional(),
+      })
+    )
+    .min(1),
+});
+
+let packs: RulePack[] | null = null;
+
+/** Parse and validate a rule pack file (.json, .yaml, or .yml) */
+export function loadRulePackFile(filePath: string): RulePack {
+  const result = rulePackSchema.safeParse(parseDataFile(filePath));
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid rule pack ${filePath}: ${issues.join("; ")}`);
+  }
+  const ids = new Set<string>();
+  for (const rule of result.data.rules) {
+    if (ids.has(rule.id)) throw new Error(`Invalid rule pack ${filePath}: duplicate rule id "${rule.id}"`);
+    ids.add(rule.id);
+  }
+  return result.data;
+}
+
+/**
+ * The built-in pack plus any packs in the FASTTRACK_RULE_PACKS directory.
+ * A custom pack with the same id as the built-in one replaces it.
+ */
+export function getRulePacks(): RulePack[] {
+  if (!packs) {
+    const loaded: RulePack[] = [];
+    const dir = process.env.FASTTRACK_RULE_PACKS;
+    if (dir) {
+      try {
+        for (const file of listDataFiles(dir)) {
+          try {
+            loaded.push(loadRulePackFile(file));
+          } catch (err) {
+            logger.error(`Skipping rule pack ${basename(file)}:`, err);
+          }
+        }
+        logger.info(`Loaded ${loaded.length} rule pack(s) from ${dir}`);
+      } catch (err) {
+        logger.error(`Failed to read rule pack directory ${dir}, using built-in rules:`, err);
+      }
+    }
+    packs = [
+      ...(loaded.some((p) => p.id === DEFAULT_RULE_PACK.id) ? [] : [DEFAULT_RULE_PACK]),
+      ...loaded,
+    ];
+  }
+  return packs;
+}
+
+export function findRulePack(id: string): RulePack | undefined {
+  return getRulePacks().find((p) => p.id.toLowerCase() === id.toLowerCase());
+}
+
+/**
+ * Pack for a customer: the first custom pack targeting its engagement type,
+ * otherwise the default pack.
+ */
+export function rulePackForCustomer(customer: Customer): RulePack {
+  const available = getRulePacks();
+  return (
+    available.find((p) => p.engagementTypes?.includes(customer.engagementType)) ??
+    available.find((p) => p.id === DEFAULT_RULE_PACK.id) ??
+    available[0]
+  );
+}
@@ -0,0 +1,101 @@
+import { daysBetween, todayIso } from "../utils/dates.js";
+import { isIsoDate } from "../utils/validation.js";
+import { isDone } from "./checklistDependencies.js";
+import { computeCriticalPath } from "./criticalPath.js";
+import type { ChecklistItem, ChecklistPhase, Customer } from "../types/index.js";
+
+const PRE_GO_LIVE_PHASES: ChecklistPhase[] = ["Initiate", "Implement", "Prepare"];
+
+/** Days an open item is past its due date, or 0 if it is not overdue or the due date does not parse */
+export function daysOverdue(item: ChecklistItem, today = todayIso()): number {
+  if (!item.dueDate || !isIsoDate(item.dueDate) || isDone(item)) return 0;
+  return Math.max(0, daysBetween(item.dueDate, today));
+}
+
+export interface PhaseSchedule {
+  phase: ChecklistPhase;
+  openItems: number;
+  /** Sum of remaining effort (estimated or assumed) */
+  remainingEffortDays: number;
+  /** When the phase's open items can finish, given dependencies */
+  projectedFinish?: string;
+  /** False when the phase cannot finish before go-live */
+  fits: boolean;
+}
+
+export interface ScheduleRisk {
+  today: string;
+  goLiveDate?: string;
+  daysToGoLive?: number;
+  overdue: { item: ChecklistItem; daysOverdue: number }[];
+  /** Open pre-go-live items scheduled after the go-live date */
+  dueAfterGoLive: ChecklistItem[];
+  /** Items whose due date is not a valid YYYY-MM-DD date and was ignored */
+  invalidDueDates: ChecklistItem[];
+  phases: PhaseSchedule[];
+  /** When all pre-go-live work can be finished */
+  projectedReadinessDate: string;
+  /** Days the projected readiness date falls after go-live (0 if on time) */
+  slippageDays: number;
+  rating: "On Track" | "At Risk" | "Off Track";
+}
+
+/**
+ * Evaluate checklist due dates and remaining effort against go-live. Phase
+ * and readiness projections reuse the critical path schedule, so they
+ * respect item dependencies.
+ */
+export function assessScheduleRisk(customer: Customer, items: ChecklistItem[], today = todayIso()): ScheduleRisk {
+  const schedule = computeCriticalPath(customer, items, today);
+  const goLive = customer.goLiveDate;
+
+  const overdue = items
+    .map((item) => ({ item, daysOverdue: daysOverdue(item, today) }))
+    .filter((o) => o.daysOverdue > 0)
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+  const dueAfterGoLive = goLive
+    ? items.filter(
+        (i) => !isDone(i) && i.phase !== "Operate" && !!i.dueDate && isIsoDate(i.dueDate) && i.dueDate > goLive
+      )
+    : [];
+  const invalidDueDates = items.filter((i) => !!i.dueDate && !isIsoDate(i.dueDate));
+
+  const phases: PhaseSchedule[] = PRE_GO_LIVE_PHASES.map((phase) => {
+    const open = schedule.scheduled.filter((s) => s.item.phase === phase);
+    const projectedFinish = open.length > 0 ? open.map((s) => s.earliestFinish).sort().at(-1) : undefined;
+    return {
+      phase,
+      openItems: open.length,
+      remainingEffortDays: open.reduce((sum, s) => sum + s.effortDays, 0),
+      projectedFinish,
+      fits: !goLive || !projectedFinish || projectedFinish <= goLive,
+    };
+  });
+
+  const projectedReadinessDate = phases
+    .map((p) => p.projectedFinish)
+    .filter((d): d is string => !!d)
+    .reduce((latest, d) => (d > latest ? d : latest), today);
+  const slippageDays = goLive ? Math.max(0, daysBetween(goLive, projectedReadinessDate)) : 0;
+
+  const rating =
+    slippageDays > 0
+      ? "Off Track"
+      : overdue.length > 0 || dueAfterGoLive.length > 0
+        ? "At Risk"
+        : "On Track";
+
+  return {
+    today,
+    goLiveDate: goLive,
+    daysToGoLive: goLive ? daysBetween(today, goLive) : undefined,
+    overdue,
+    dueAfterGoLive,
+    invalidDueDates,
+    phases,
+    projectedReadinessDate,
+    slippageDays,
+    rating,
+  };
+}
@@ -3,22 +3,109 @@ import type {
   D365Environment,
   ChecklistItem,
   BestPractice,
+  ChangeLogEntry,
+  Contact,
+  EnvironmentEvent,
+  Deployment,
+  ProgressSnapshot,
+  RaidItem,
+  StorageBackend,
 } from "../types/index.js";
+import { Collection } from "./collection.js";
+import { createStorageBackend } from "./backends/index.js";
+import { buildProgressSnapshot } from "./progressCounts.js";
+
+const ID_PREFIXES = ["cust", "env", "chk", "chg", "ctc", "evt", "dep", "cmt", "evd", "raid"] as const;
+
+export type IdPrefix = (typeof ID_PREFIXES)[number];
 
 /**
- * In-memory data store for the FastTrack MCP Server.
+ * Repository for the FastTrack MCP Server.
  *
- * Replace this with a database connection (Dataverse, SQL, CosmosDB, etc.)
- * when moving to production.
+ * Each entity lives in a Collection backed by the configured storage
+ * backend (see FASTTRACK_STORE). The in-memory backend is the default and
+ * is re-seeded with sample data on every start; file-based backends are
+ * seeded only on first use.
  */
 class FastTrackStore {
-  customers: Map<string, Customer> = new Map();
-  environments: Map<string, D365Environment> = new Map();
-  checklists: Map<string, ChecklistItem[]> = new Map();
-  bestPractices: BestPractice[] = [];
+  readonly customers: Collection<Customer>;
+  readonly environments: Collection<D365Environment>;
+  /** Lifecycle events (provisioning, version upgrades, decommissioning) per environment */
+  readonly environmentEvents: Collection<EnvironmentEvent>;
+  /** Package deployment history per environment */
+  readonly deployments: Collection<Deployment>;
+  /** Checklist items keyed by customer ID */
+  readonly checklists: Collection<ChecklistItem[]>;
+  /** Daily checklist status counts keyed by "customerId:YYYY-MM-DD" */
+  readonly progressSnapshots: Collection<ProgressSnapshot>;
+  readonly bestPractices: Collection<BestPractice>;
+  readonly contacts: Collection<Contact>;
+  /** Risks, assumptions, issues, and decisions per customer */
+  readonly raidItems: Collection<RaidItem>;
+  /** Append-only audit trail of changes made through the tools */
+  readonly changeLog: Collection<ChangeLogEntry>;
+  /** Last allocated number per ID prefix */
+  private readonly sequences: Collection<number>;
+
+  constructor(readonly backend: StorageBackend) {
+    const seed = backend.isEmpty();
+
+    this.customers = new Collection("customers", backend);
+    this.environments = new Collection("environments", backend);
+    this.environmentEvents = new Collection("environmentEvents", backend);
+    this.deployments = new Collection("deployments", backend);
+    this.checklists = new Collection("checklists", backend);
+    this.progressSnapshots = new Collection("progressSnapshots", backend);
+    this.bestPractices = new Collection("bestPractices", backend);
+    this.contacts = new Collection("contacts", backend);
+    this.raidItems = new Collection("raidItems", backend);
+    this.changeLog = new Collection("changeLog", backend);
+    this.sequences = new Collection("sequences", backend);
 
-  constructor() {
-    this.seedData();
+    if (seed) {
+      this.seedData();
+    }
+
+    // Start counters above existing IDs before anything can be deleted
+    for (const prefix of ID_PREFIXES) {
+      if (!this.sequences.has(prefix)) {
+        this.sequences.set(prefix, this.highestExistingId(prefix));
+      }
+    }
+  }
+
+  /**
+   * Allocate the next ID for a prefix (e.g. "cust" → "cust-004"). Counters
+   * are persisted and never reused, so deleting a record cannot cause a
+   * later record to overwrite another one.
+   */
+  nextId(prefix: IdPrefix, width = 3): string {
+    const next = (this.sequences.get(prefix) ?? 0) + 1;
+    this.sequences.set(prefix, next);
+    return `${prefix}-${String(next).padStart(width, "0")}`;
+  }
+
+  /** Highest numeric suffix already in use for a prefix */
+  private highestExistingId(prefix: IdPrefix): number {
+    const ids: Record<IdPrefix, () => string[]> = {
+      cust: () => this.customers.keys(),
+      env: () => this.environments.keys(),
+      chk: () => this.checklists.list().flat().map((i) => i.id),
+      chg: () => this.changeLog.keys(),
+      ctc: () => this.contacts.keys(),
+      evt: () => this.environmentEvents.keys(),
+      dep: () => this.deployments.keys(),
+      cmt: () => this.checklists.list().flat().flatMap((i) => i.comments ?? []).map((c) => c.id),
+      raid: () => this.raidItems.keys(),
+      evd: () => this.checklists.list().flat().flatMap((i) => i.evidence ?? []).map((e) => e.id),
+    };
+
+    let max = 0;
+    for (const id of ids[prefix]()) {
+      const match = id.match(/-(\d+)$/);
+      if (match) max = Math.max(max, parseInt(match[1], 10));
+    }
+    return max;
   }
 
   private seedData() {
@@ -31,6 +118,7 @@ class FastTrackStore {
         region: "North America",
         engagementType: "FastTrack",
         status: "Active",
+        currentPhase: "Implement",
         d365Modules: [
           "Finance",
           "Supply Chain Management",
@@ -48,6 +136,7 @@ class FastTrackStore {
         region: "Europe",
         engagementType: "FastTrack",
         status: "Onboarding",
+        currentPhase: "Initiate",
         d365Modules: ["Finance", "Commerce", "Warehouse Management"],
         goLiveDate: "2026-09-01",
         assignedArchitect: "Ragnar Pitla",
@@ -61,6 +150,7 @@ class FastTrackStore {
         region: "Asia Pacific",
         engagementType: "Unified",
         status: "Go-Live",
+        currentPhase: "Prepare",
         d365Modules: [
           "Finance",
           "Supply Chain Management",
@@ -83,6 +173,8 @@ class FastTrackStore {
         customerId: "cust-001",
         name: "Contoso-Sandbox-T1",
         type: "Sandbox",
+        tier: "Tier-1",
+        purpose: "Development",
         region: "East US",
         version: "10.0.40",
         status: "Active",
@@ -92,6 +184,9 @@ class FastTrackStore {
         customerId: "cust-001",
         name: "Contoso-UAT",
         type: "UAT",
+        tier: "Tier-2",
+        size: "Small",
+        purpose: "UAT",
         region: "East US",
         version: "10.0.40",
         status: "Active",
@@ -101,6 +196,8 @@ class FastTrackStore {
         customerId: "cust-001",
         name: "Contoso-Prod",
         type: "Production",
+        size: "Medium",
+        purpose: "Production",
         region: "East US",
         version: "10.0.39",
         status: "Active",
@@ -111,6 +208,43 @@ class FastTrackStore {
       this.environments.set(e.id, e);
     }
 
+    // ── Sample Deployments for cust-001 ──
+    const sampleDeployments: Deployment[] = [
+      {
+        id: "dep-001",
+        environmentId: "env-003",
+        customerId: "cust-001",
+        packageName: "Contoso-Release-2026.01",
+        models: [
+          { name: "ContosoCore", version: "1.0.0.12" },
+          { name: "ContosoIntegrations", version: "1.0.0.4" },
+        ],
+        isvSolutions: [{ name: "Tax Engine", vendor: "Avalara", version: "3.1" }],
+        deployedBy: "Ragnar Pitla",
+        deployedAt: "2026-01-20T22:00:00Z",
+        outcome: "Succeeded",
+      },
+      {
+        id: "dep-002",
+        environmentId: "env-002",
+        customerId: "cust-001",
+        packageName: "Contoso-Release-2026.02",
+        models: [
+          { name: "ContosoCore", version: "1.0.0.15" },
+          { name: "ContosoIntegrations", version: "1.0.0.4" },
+          { name: "ContosoReports", version: "1.0.0.1" },
+        ],
+        isvSolutions: [{ name: "Tax Engine", vendor: "Avalara", version: "3.2" }],
+        deployedBy: "Ragnar Pitla",
+        deployedAt: "2026-02-10T18:30:00Z",
+        outcome: "Succeeded",
+      },
+    ];
+
+    for (const d of sampleDeployments) {
+      this.deployments.set(d.id, d);
+    }
+
     // ── Sample Checklist for cust-001 ──
     const contosoChecklist: ChecklistItem[] = [
       {
@@ -142,6 +276,8 @@ class FastTrackStore {
           "Conduct fit-gap workshops for all in-scope modules to identify customization needs.",
         status: "In Progress",
         owner: "Solution Architect",
+        dependsOn: ["chk-001"],
+        estimatedEffortDays: 20,
       },
       {
         id: "chk-004",
@@ -152,6 +288,8 @@ class FastTrackStore {
           "Plan data migration approach including entity mapping, data cleansing, and validation.",
         status: "Not Started",
         owner: "Data Architect",
+        dependsOn: ["chk-003"],
+        estimatedEffortDays: 15,
       },
       {
         id: "chk-005",
@@ -162,6 +300,8 @@ class FastTrackStore {
           "Define integration patterns, middleware, and data flows for all external systems.",
         status: "Not Started",
         owner: "Integration Architect",
+        dependsOn: ["chk-003"],
+        estimatedEffortDays: 25,
       },
       {
         id: "chk-006",
@@ -172,6 +312,8 @@ class FastTrackStore {
           "Run user acceptance testing with business stakeholders across all configured processes.",
         status: "Not Started",
         owner: "Test Lead",
+        dependsOn: ["chk-004", "chk-005"],
+        estimatedEffortDays: 20,
       },
       {
         id: "chk-007",
@@ -182,6 +324,8 @@ class FastTrackStore {
           "Define step-by-step cutover plan including rollback procedures.",
         status: "Not Started",
         owner: "Project Manager",
+        dependsOn: ["chk-004"],
+        estimatedEffortDays: 10,
       },
       {
         id: "chk-008",
@@ -192,13 +336,124 @@ class FastTrackStore {
           "Set up post-go-live support structure with escalation matrix and SLAs.",
         status: "Not Started",
         owner: "Support Lead",
+        dependsOn: ["chk-007"],
+        estimatedEffortDays: 5,
       },
     ];
 
     this.checklists.set("cust-001", contosoChecklist);
 
+    // ── Sample progress history for cust-001 (statuses not listed are Not Started) ──
+    const contosoHistory: Array<[string, Record<string, ChecklistItem["status"]>]> = [
+      ["2025-12-08", {}],
+      ["2025-12-15", { "chk-001": "In Progress" }],
+      ["2026-01-05", { "chk-001": "Completed", "chk-002": "In Progress" }],
+      ["2026-01-19", { "chk-001": "Completed", "chk-002": "Completed" }],
+      ["2026-02-01", { "chk-001": "Completed", "chk-002": "Completed", "chk-003": "In Progress" }],
+    ];
+    for (const [date, statuses] of contosoHistory) {
+      const items = contosoChecklist.map((i) => ({ ...i, status: statuses[i.id] ?? "Not Started" }));
+      this.progressSnapshots.set(`cust-001:${date}`, {
+        ...buildProgressSnapshot("cust-001", items, date),
+        capturedAt: `${date}T18:00:00Z`,
+      });
+    }
+
+    // ── Sample Contacts for cust-001 ──
+    const contosoContacts: Contact[] = [
+      {
+        id: "ctc-001",
+        customerId: "cust-001",
+        name: "Dana Whitfield",
+        role: "Executive Sponsor",
+        organization: "Customer",
+        email: "dana.whitfield@contoso.com",
+        timezone: "America/Chicago",
+        createdAt: "2025-11-01T00:00:00Z",
+        updatedAt: "2025-11-01T00:00:00Z",
+      },
+      {
+        id: "ctc-002",
+        customerId: "cust-001",
+        name: "Priya Raman",
+        role: "Project Manager",
+        organization: "Partner",
+        email: "priya.raman@fabrikam-consulting.com",
+        timezone: "America/New_York",
+        createdAt: "2025-11-01T00:00:00Z",
+        updatedAt: "2025-11-01T00:00:00Z",
+      },
+      {
+        id: "ctc-003",
+        customerId: "cust-001",
+        name: "Marco Bianchi",
+        role: "Data Architect",
+        organization: "Partner",
+        email: "marco.bianchi@fabrikam-consulting.com",
+        timezone: "Europe/Rome",
+        createdAt: "2025-11-01T00:00:00Z",
+        updatedAt: "2025-11-01T00:00:00Z",
+      },
+    ];
+
+    for (const contact of contosoContacts) {
+      this.contacts.set(contact.id, contact);
+    }
+
+    // ── Sample RAID log for cust-001 ──
+    const contosoRaid: RaidItem[] = [
+      {
+        id: "raid-001",
+        customerId: "cust-001",
+        type: "Risk",
+        title: "Legacy ERP data quality may delay migration",
+        description: "Item and customer masters in the legacy system have duplicates and missing dimensions.",
+        probability: 4,
+        impact: 4,
+        owner: "Marco Bianchi",
+        mitigation: "Run data profiling in the next sprint and agree cleansing ownership with the business.",
+        status: "Open",
+        linkedItems: ["chk-004"],
+        raisedBy: "Ragnar Pitla",
+        createdAt: "2026-01-20T00:00:00Z",
+        updatedAt: "2026-01-20T00:00:00Z",
+      },
+      {
+        id: "raid-002",
+        customerId: "cust-001",
+        type: "Assumption",
+        title: "Key users are available full-time for UAT",
+        probability: 3,
+        impact: 4,
+        owner: "Priya Raman",
+        mitigation: "Confirm backfill for key users with the executive sponsor before UAT starts.",
+        status: "Open",
+        linkedItems: ["chk-006"],
+        raisedBy: "Priya Raman",
+        createdAt: "2026-01-26T00:00:00Z",
+        updatedAt: "2026-01-26T00:00:00Z",
+      },
+      {
+        id: "raid-003",
+        customerId: "cust-001",
+        type: "Decision",
+        title: "Use standard data entities for all master data migration",
+        mitigation: "Avoids custom migration code and keeps the approach supportable across service updates.",
+        status: "Resolved",
+        linkedItems: ["chk-004"],
+        raisedBy: "Ragnar Pitla",
+        createdAt: "2026-01-12T00:00:00Z",
+        updatedAt: "2026-01-14T00:00:00Z",
+        closedAt: "2026-01-14T00:00:00Z",
+      },
+    ];
+
+    for (const item of contosoRaid) {
+      this.raidItems.set(item.id, item);
+    }
+
     // ── Sample Best Practices ──
-    this.bestPractices = [
+    const sampleBestPractices: BestPractice[] = [
       {
         id: "bp-001",
         module: "Finance",
@@ -284,7 +539,11 @@ class FastTrackStore {
         tags: ["go-live", "readiness", "fasttrack"],
       },
     ];
+
+    for (const bp of sampleBestPractices) {
+      this.bestPractices.set(bp.id, bp);
+    }
   }
 }
 
-export const store = new FastTrackStore();
+export const store = new FastTrackStore(createStorageBackend());
@@ -0,0 +1,256 @@
+import type { ChecklistTemplate, ChecklistTemplateItem } from "../../types/index.js";
+
+/** Items shared by every implementation, whatever the engagement type */
+const CORE_ITEMS: ChecklistTemplateItem[] = [
+  {
+    key: "project-scope",
+    phase: "Initiate",
+    category: "Project Governance",
+    title: "Define project scope and objectives",
+    description:
+      "Document the business objectives, project scope, and success criteria for the D365 F&O implementation.",
+    owner: "Project Manager",
+    daysBeforeGoLive: 240,
+  },
+  {
+    key: "governance-model",
+    phase: "Initiate",
+    category: "Project Governance",
+    title: "Establish governance model",
+    description: "Define roles, responsibilities, escalation paths, and decision-making processes.",
+    owner: "Project Manager",
+    daysBeforeGoLive: 230,
+  },
+  {
+    key: "lcs-project",
+    phase: "Initiate",
+    category: "Environments",
+    title: "Set up LCS project and subscription estimate",
+    description: "Create the implementation LCS project and complete the subscription estimator for production sizing.",
+    owner: "Technical Architect",
+    daysBeforeGoLive: 220,
+  },
+  {
+    key: "fit-gap",
+    phase: "Implement",
+    category: "Solution Design",
+    title: "Complete Fit-Gap analysis",
+    description: "Conduct fit-gap workshops for all in-scope modules to identify customization needs.",
+    owner: "Solution Architect",
+    daysBeforeGoLive: 180,
+  },
+  {
+    key: "data-migration-strategy",
+    phase: "Implement",
+    category: "Data Migration",
+    title: "Define data migration strategy",
+    description: "Plan data migration approach including entity mapping, data cleansing, and validation.",
+    owner: "Data Architect",
+    daysBeforeGoLive: 170,
+  },
+  {
+    key: "integration-architecture",
+    phase: "Implement",
+    category: "Integration",
+    title: "Design integration architecture",
+    description: "Define integration patterns, middleware, and data flows for all external systems.",
+    owner: "Integration Architect",
+    daysBeforeGoLive: 160,
+  },
+  {
+    key: "security-design",
+    phase: "Implement",
+    category: "Security",
+    title: "Design security roles and segregation of duties",
+    description: "Map business roles to security roles, duties, and privileges, and define segregation of duties rules.",
+    owner: "Solution Architect",
+    daysBeforeGoLive: 120,
+  },
+  {
+    key: "uat",
+    phase: "Prepare",
+    category: "Testing",
+    title: "Execute UAT",
+    description: "Run user acceptance testing with business stakeholders across all configured processes.",
+    owner: "Test Lead",
+    daysBeforeGoLive: 40,
+  },
+  {
+    key: "cutover-plan",
+    phase: "Prepare",
+    category: "Cutover",
+    title: "Create cutover plan",
+    description: "Define step-by-step cutover plan including rollback procedures.",
+    owner: "Project Manager",
+    daysBeforeGoLive: 30,
+  },
+  {
+    key: "end-user-training",
+    phase: "Prepare",
+    category: "Training",
+    title: "Deliver end-user training",
+    description: "Train end users on the processes they run in production, using the UAT-approved configuration.",
+    owner: "Change Manager",
+    daysBeforeGoLive: 14,
+  },
+  {
+    key: "hypercare",
+    phase: "Operate",
+    category: "Support",
+    title: "Establish hypercare support model",
+    description: "Set up post-go-live support structure with escalation matrix and SLAs.",
+    owner: "Support Lead",
+    daysBeforeGoLive: 0,
+  },
+  {
+    key: "service-update-cadence",
+    phase: "Operate",
+    category: "Environments",
+    title: "Plan service update cadence",
+    description: "Agree the One Version update schedule and regression test approach for post-go-live service updates.",
+    owner: "Technical Architect",
+    daysBeforeGoLive: -60,
+  },
+];
+
+/** Success by Design reviews and module-specific work for Finance and SCM */
+const FASTTRACK_FINANCE_SCM_ITEMS: ChecklistTemplateItem[] = [
+  {
+    key: "sbd-kickoff",
+    phase: "Initiate",
+    category: "Success by Design",
+    title: "Hold Success by Design kickoff",
+    description: "Introduce the FastTrack engagement, review milestones, and schedule the Success by Design reviews.",
+    owner: "FastTrack Architect",
+    daysBeforeGoLive: 225,
+  },
+  {
+    key: "solution-blueprint-review",
+    phase: "Implement",
+    category: "Success by Design",
+    title: "Complete Solution Blueprint Review",
+    description: "Review the end-to-end solution design, environments, data, integration, and testing strategy with FastTrack.",
+    owner: "FastTrack Architect",
+    daysBeforeGoLive: 150,
+  },
+  {
+    key: "coa-design",
+    phase: "Implement",
+    category: "Finance",
+    title: "Design chart of accounts and financial dimensions",
+    description: "Agree the chart of accounts, financial dimensions, and account structures across legal entities.",
+    owner: "Functional Lead",
+    daysBeforeGoLive: 170,
+    modules: ["Finance"],
+  },
+  {
+    key: "posting-setup",
+    phase: "Implement",
+    category: "Finance",
+    title: "Configure posting profiles and tax setup",
+    description: "Configure customer, vendor, and inventory posting profiles and sales tax/VAT setup.",
+    owner: "Functional Lead",
+    daysBeforeGoLive: 120,
+    modules: ["Finance"],
+  },
+  {
+    key: "product-master",
+    phase: "Implement",
+    category: "Supply Chain",
+    title: "Define product master and released product strategy",
+    description: "Agree product dimensions, item model groups, and how products are released to legal entities.",
+    owner: "Functional Lead",
+    daysBeforeGoLive: 150,
+    modules: ["Supply Chain Management"],
+  },
+  {
+    key: "warehouse-processes",
+    phase: "Implement",
+    category: "Supply Chain",
+    title: "Design warehouse processes and mobile device flows",
+    description: "Design work templates, location directives, and warehouse mobile app menu items.",
+    owner: "Functional Lead",
+    daysBeforeGoLive: 130,
+    modules: ["Warehouse Management"],
+  },
+  {
+    key: "production-setup",
+    phase: "Implement",
+    category: "Supply Chain",
+    title: "Configure BOMs, routes and production parameters",
+    description: "Configure bills of materials, routes, resources, and production control parameters.",
+    owner: "Functional Lead",
+    daysBeforeGoLive: 130,
+    modules: ["Production Control"],
+  },
+  {
+    key: "performance-test",
+    phase: "Prepare",
+    category: "Testing",
+    title: "Execute performance testing",
+    description: "Run performance tests for peak volumes on a Tier-2 or higher sandbox and review results with FastTrack.",
+    owner: "Test Lead",
+    daysBeforeGoLive: 60,
+  },
+  {
+    key: "mock-cutover",
+    phase: "Prepare",
+    category: "Cutover",
+    title: "Run mock cutover",
+    description: "Rehearse the cutover plan end to end, including data migration timings, on a Tier-2 sandbox.",
+    owner: "Project Manager",
+    daysBeforeGoLive: 45,
+  },
+  {
+    key: "period-close-rehearsal",
+    phase: "Prepare",
+    category: "Finance",
+    title: "Rehearse period-end close",
+    description: "Walk through the month-end close checklist with migrated data to confirm reconciliations balance.",
+    owner: "Functional Lead",
+    daysBeforeGoLive: 30,
+    modules: ["Finance"],
+  },
+  {
+    key: "go-live-readiness-review",
+    phase: "Prepare",
+    category: "Success by Design",
+    title: "Complete Go-Live Readiness Review",
+    description: "Review go-live readiness with FastTrack and resolve all high-risk findings before requesting production.",
+    owner: "FastTrack Architect",
+    daysBeforeGoLive: 21,
+  },
+  {
+    key: "first-period-close",
+    phase: "Operate",
+    category: "Finance",
+    title: "Complete first month-end close",
+    description: "Close the first period in production and review any issues with the finance team.",
+    owner: "Functional Lead",
+    daysBeforeGoLive: -35,
+    modules: ["Finance"],
+  },
+];
+
+/**
+ * Built-in checklist templates. Custom templates loaded from
+ * FASTTRACK_CHECKLIST_TEMPLATES use the same shape in JSON or YAML.
+ */
+export const BUILT_IN_TEMPLATES: ChecklistTemplate[] = [
+  {
+    id: "d365-standard",
+    name: "D365 F&O Standard Implementation",
+    version: "1.0.0",
+    description: "Core governance, design, testing, and cutover activities for any engagement.",
+    items: CORE_ITEMS,
+  },
+  {
+    id: "fasttrack-finance-scm",
+    name: "FastTrack Finance + SCM",
+    version: "1.0.0",
+    description: "FastTrack Success by Design milestones with Finance and Supply Chain Management activities.",
+    engagementTypes: ["FastTrack"],
+    modules: ["Finance", "Supply Chain Management"],
+    items: [...CORE_ITEMS, ...FASTTRACK_FINANCE_SCM_ITEMS],
+  },
+];
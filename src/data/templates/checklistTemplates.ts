@@ -0,0 +1,201 @@
+import { basename } from "path";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { listDataFiles, parseDataFile } from "../../utils/dataFiles.js";
+import { addDays } from "../../utils/dates.js";
+import { normalizeText } from "../../utils/fuzzyMatch.js";
+import { compareVersions } from "../environmentEvents.js";
+import { moduleMatchesFilter } from "../moduleCatalog.js";
+import { BUILT_IN_TEMPLATES } from "./builtInTemplates.js";
+import type {
+  ChecklistItem,
+  ChecklistPhase,
+  ChecklistTemplate,
+  ChecklistTemplateItem,
+  Customer,
+} from "../../types/index.js";
+
+const templateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  version: z.string().regex(/^\d+(\.\d+)*$/, "must be a dotted version such as 1.0.0"),
+  description: z.string().optional(),
+  engagementTypes: z.array(z.enum(["FastTrack", "Unified", "Direct"])).optional(),
+  modules: z.array(z.string().min(1)).optional(),
+  items: z
+    .array(
+      z.object({
+        key: z.string().min(1),
+        phase: z.enum(["Initiate", "Implement", "Prepare", "Operate"]),
+        category: z.string().min(1),
+        title: z.string().min(1),
+        description: z.string(),
+        owner: z.string().optional(),
+        daysBeforeGoLive: z.number().int(),
+        modules: z.array(z.string().min(1)).optional(),
+      })
+    )
+    .min(1),
+});
+
+const PHASE_ORDER: ChecklistPhase[] = ["Initiate", "Implement", "Prepare", "Operate"];
+
+let templates: ChecklistTemplate[] | null = null;
+
+/** Parse and validate a checklist template file (.json, .yaml, or .yml) */
+export function loadChecklistTemplateFile(filePath: string): ChecklistTemplate {
+  const result = templateSchema.safeParse(parseDataFile(filePath));
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid checklist template ${filePath}: ${issues.join("; ")}`);
+  }
+  const keys = new Set<string>();
+  for (const item of result.data.items) {
+    if (keys.has(item.key)) {
+      throw new Error(`Invalid checklist template ${filePath}: duplicate item key "${item.key}"`);
+    }
+    keys.add(item.key);
+  }
+  return result.data;
+}
+
+/**
+ * Built-in templates plus any in the FASTTRACK_CHECKLIST_TEMPLATES
+ * directory. A custom template with the same id and version as a built-in
+ * one replaces it; other versions are kept side by side.
+ */
+export function getChecklistTemplates(): ChecklistTemplate[] {
+  if (!templates) {
+    const loaded: ChecklistTemplate[] = [];
+    const dir = process.env.FASTTRACK_CHECKLIST_TEMPLATES;
+    if (dir) {
+      try {
+        for (const file of listDataFiles(dir)) {
+          try {
+            loaded.push(loadChecklistTemplateFile(file));
+          } catch (err) {
+            logger.error(`Skipping checklist template ${basename(file)}:`, err);
+          }
+        }
+        logger.info(`Loaded ${loaded.length} checklist template(s) from ${dir}`);
+      } catch (err) {
+        logger.error(`Failed to read checklist template directory ${dir}, using built-in templates:`, err);
+      }
+    }
+    templates = [
+      ...BUILT_IN_TEMPLATES.filter((b) => !loaded.some((t) => t.id === b.id && t.version === b.version)),
+      ...loaded,
+    ];
+  }
+  return templates;
+}
+
+/** Latest version of each template, sorted by id */
+export function latestChecklistTemplates(): ChecklistTemplate[] {
+  const latest = new Map<string, ChecklistTemplate>();
+  for (const t of getChecklistTemplates()) {
+    const current = latest.get(t.id);
+    if (!current || compareVersions(t.version, current.version) > 0) latest.set(t.id, t);
+  }
+  return Array.from(latest.values()).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/** A template by id, at the given version or the latest one */
+export function findChecklistTemplate(id: string, version?: string): ChecklistTemplate | undefined {
+  const candidates = getChecklistTemplates().filter((t) => t.id.toLowerCase() === id.toLowerCase());
+  if (version) return candidates.find((t) => compareVersions(t.version, version) === 0);
+  return candidates.sort((a, b) => compareVersions(b.version, a.version))[0];
+}
+
+function licensesAny(customer: Customer, modules: string[]): boolean {
+  return customer.d365Modules.some((m) => modules.some((filter) => moduleMatchesFilter(m, filter)));
+}
+
+/**
+ * How well a template fits a customer, or -1 if it does not apply. A
+ * template naming the customer's engagement type or modules outranks a
+ * generic one.
+ */
+function templateFit(template: ChecklistTemplate, customer: Customer): number {
+  if (template.engagementTypes && !template.engagementTypes.includes(customer.engagementType)) return -1;
+  if (template.modules && !licensesAny(customer, template.modules)) return -1;
+  const moduleMatches = (template.modules ?? []).filter((m) => licensesAny(customer, [m])).length;
+  return (template.engagementTypes ? 1 : 0) + moduleMatches;
+}
+
+/** Best-fitting latest template for the customer's engagement type and modules */
+export function selectChecklistTemplate(customer: Customer): ChecklistTemplate | undefined {
+  let best: ChecklistTemplate | undefined;
+  let bestFit = -1;
+  for (const template of latestChecklistTemplates()) {
+    const fit = templateFit(template, customer);
+    if (fit > bestFit) {
+      best = template;
+      bestFit = fit;
+    }
+  }
+  return best;
+}
+
+export function templateRef(template: ChecklistTemplate, item: ChecklistTemplateItem): string {
+  return `${template.id}#${item.key}`;
+}
+
+export interface TemplatePlan {
+  /** Items to create, without IDs */
+  items: Omit<ChecklistItem, "id">[];
+  /** Template items already on the checklist */
+  skipped: { item: ChecklistTemplateItem; existingId: string }[];
+  /** Template items for modules the customer does not license */
+  notApplicable: ChecklistTemplateItem[];
+}
+
+/**
+ * Items a template would add to a checklist. Due dates are back-scheduled
+ * from go-live; items are skipped when the checklist already has one from
+ * the same template item or with the same title in the same phase.
+ */
+export function planChecklistTemplate(
+  template: ChecklistTemplate,
+  customer: Customer,
+  existing: ChecklistItem[]
+): TemplatePlan {
+  const plan: TemplatePlan = { items: [], skipped: [], notApplicable: [] };
+
+  // Generate in phase order, earliest due first
+  const ordered = [...template.items].sort(
+    (a, b) =>
+      PHASE_ORDER.indexOf(a.phase) - PHASE_ORDER.indexOf(b.phase) || b.daysBeforeGoLive - a.daysBeforeGoLive
+  );
+
+  for (const item of ordered) {
+    if (item.modules && !licensesAny(customer, item.modules)) {
+      plan.notApplicable.push(item);
+      continue;
+    }
+
+    const ref = templateRef(template, item);
+    const match = existing.find(
+      (e) =>
+        e.templateRef === ref ||
+        (e.phase === item.phase && normalizeText(e.title) === normalizeText(item.title))
+    );
+    if (match) {
+      plan.skipped.push({ item, existingId: match.id });
+      continue;
+    }
+
+    plan.items.push({
+      phase: item.phase,
+      category: item.category,
+      title: item.title,
+      description: item.description,
+      status: "Not Started",
+      owner: item.owner,
+      dueDate: customer.goLiveDate ? addDays(customer.goLiveDate, -item.daysBeforeGoLive) : undefined,
+      templateRef: ref,
+    });
+  }
+
+  return plan;
+}
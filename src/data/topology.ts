@@ -0,0 +1,151 @@
+import { store } from "./store.js";
+import { currentPhase } from "./lifecycle.js";
+import { moduleMatchesFilter } from "./moduleCatalog.js";
+import type {
+  Customer,
+  D365Environment,
+  EnvironmentPurpose,
+  EnvironmentTier,
+  TopologyCheck,
+  TopologyRequirement,
+} from "../types/index.js";
+
+export const ENVIRONMENT_TIERS: [EnvironmentTier, ...EnvironmentTier[]] = [
+  "Tier-1",
+  "Tier-2",
+  "Tier-3",
+  "Tier-4",
+  "Tier-5",
+];
+
+export const ENVIRONMENT_PURPOSES: [EnvironmentPurpose, ...EnvironmentPurpose[]] = [
+  "Development",
+  "Build",
+  "Test",
+  "UAT",
+  "Performance Testing",
+  "Training",
+  "Data Migration",
+  "Golden Configuration",
+  "Production",
+];
+
+const DEFAULT_TIER: Record<D365Environment["type"], EnvironmentTier | undefined> = {
+  DevTest: "Tier-1",
+  Build: "Tier-1",
+  Sandbox: "Tier-1",
+  UAT: "Tier-2",
+  Production: undefined,
+};
+
+const DEFAULT_PURPOSE: Record<D365Environment["type"], EnvironmentPurpose> = {
+  DevTest: "Development",
+  Build: "Build",
+  Sandbox: "Test",
+  UAT: "UAT",
+  Production: "Production",
+};
+
+/**
+ * FastTrack recommended topology. UAT and performance testing need a
+ * multi-box (Tier-2+) sandbox; performance testing is only required for
+ * high-volume modules.
+ */
+export const TOPOLOGY_REQUIREMENTS: TopologyRequirement[] = [
+  {
+    id: "dev-test",
+    description: "Development/test environment",
+    purposes: ["Development", "Test"],
+    minTier: "Tier-1",
+    count: 1,
+    phases: ["Initiate", "Implement", "Prepare", "Operate"],
+  },
+  {
+    id: "uat",
+    description: "UAT sandbox",
+    purposes: ["UAT"],
+    minTier: "Tier-2",
+    count: 1,
+    phases: ["Implement", "Prepare", "Operate"],
+  },
+  {
+    id: "data-migration",
+    description: "Data migration / golden configuration sandbox",
+    purposes: ["Data Migration", "Golden Configuration"],
+    minTier: "Tier-2",
+    count: 1,
+    phases: ["Prepare"],
+  },
+  {
+    id: "performance-testing",
+    description: "Performance testing sandbox",
+    purposes: ["Performance Testing"],
+    minTier: "Tier-2",
+    count: 1,
+    phases: ["Prepare"],
+    modules: ["Commerce", "Warehouse Management", "Master Planning", "Production Control"],
+  },
+  {
+    id: "production",
+    description: "Production environment",
+    purposes: ["Production"],
+    minTier: "Tier-1",
+    count: 1,
+    phases: ["Prepare", "Operate"],
+  },
+];
+
+export function effectiveTier(environment: D365Environment): EnvironmentTier | undefined {
+  return environment.tier ?? DEFAULT_TIER[environment.type];
+}
+
+export function effectivePurpose(environment: D365Environment): EnvironmentPurpose {
+  return environment.purpose ?? DEFAULT_PURPOSE[environment.type];
+}
+
+/** Tier rank used for comparisons; Production outranks every sandbox tier */
+function tierRank(environment: D365Environment): number {
+  if (environment.type === "Production") return ENVIRONMENT_TIERS.length + 1;
+  return ENVIRONMENT_TIERS.indexOf(effectiveTier(environment) ?? "Tier-1") + 1;
+}
+
+function appliesTo(requirement: TopologyRequirement, customer: Customer): boolean {
+  if (!requirement.modules) return true;
+  return customer.d365Modules.some((m) =>
+    requirement.modules!.some((filter) => moduleMatchesFilter(m, filter))
+  );
+}
+
+/**
+ * Check the customer's live environments against the topology required for
+ * their current phase and modules.
+ */
+export function validateTopology(customer: Customer): TopologyCheck[] {
+  const phase = currentPhase(customer);
+  const live = store.environments.filter(
+    (e) => e.customerId === customer.id && e.status !== "Decommissioned"
+  );
+
+  return TOPOLOGY_REQUIREMENTS.filter(
+    (r) => r.phases.includes(phase) && appliesTo(r, customer)
+  ).map((requirement) => {
+    const minRank = ENVIRONMENT_TIERS.indexOf(requirement.minTier) + 1;
+    const candidates = live.filter((e) => requirement.purposes.includes(effectivePurpose(e)));
+    const matched = candidates.filter((e) => tierRank(e) >= minRank);
+    const underTier = candidates.filter((e) => tierRank(e) < minRank);
+    return {
+      requirement,
+      matched: matched.map((e) => e.name),
+      underTier: underTier.map((e) => `${e.name} (${effectiveTier(e)})`),
+      satisfied: matched.length >= requirement.count,
+    };
+  });
+}
+
+/** One-line description of an unmet requirement */
+export function describeTopologyGap(check: TopologyCheck): string {
+  const { requirement } = check;
+  const tier = requirement.minTier === "Tier-1" ? "" : `, ${requirement.minTier} or higher`;
+  const underTier = check.underTier.length > 0 ? `; too small: ${check.underTier.join(" and ")}` : "";
+  return `${requirement.description}${tier} (${check.matched.length} of ${requirement.count}${underTier})`;
+}
@@ -0,0 +1,109 @@
+import { readFileSync } from "fs";
+import { logger } from "../utils/logger.js";
+import { addDays, daysBetween, todayIso } from "../utils/dates.js";
+import { isIsoDate } from "../utils/validation.js";
+import { compareVersions } from "./environmentEvents.js";
+import type { ServiceUpdate, VersionSupport } from "../types/index.js";
+
+/** Post-go-live window in which the production version must stay supported */
+export const HYPERCARE_DAYS = 90;
+
+/**
+ * Built-in F&O service update calendar. Dates are indicative — point
+ * FASTTRACK_VERSION_CATALOG at a JSON file (an array of ServiceUpdate) to
+ * use the current official release plan instead.
+ */
+const DEFAULT_CATALOG: ServiceUpdate[] = [
+  { version: "10.0.38", releaseDate: "2024-02-16", autoUpdateDate: "2024-03-22", endOfServiceDate: "2025-02-14" },
+  { version: "10.0.39", releaseDate: "2024-04-19", autoUpdateDate: "2024-05-24", endOfServiceDate: "2025-04-18" },
+  { version: "10.0.40", releaseDate: "2024-07-19", autoUpdateDate: "2024-08-23", endOfServiceDate: "2025-07-18" },
+  { version: "10.0.41", releaseDate: "2024-10-18", autoUpdateDate: "2024-11-22", endOfServiceDate: "2025-10-17" },
+  { version: "10.0.42", releaseDate: "2025-01-17", autoUpdateDate: "2025-02-21", endOfServiceDate: "2026-01-16" },
+  { version: "10.0.43", releaseDate: "2025-04-18", autoUpdateDate: "2025-05-23", endOfServiceDate: "2026-04-17" },
+  { version: "10.0.44", releaseDate: "2025-07-18", autoUpdateDate: "2025-08-22", endOfServiceDate: "2026-07-17" },
+  { version: "10.0.45", releaseDate: "2025-10-17", autoUpdateDate: "2025-11-21", endOfServiceDate: "2026-10-16" },
+  { version: "10.0.46", releaseDate: "2026-01-16", autoUpdateDate: "2026-02-20", endOfServiceDate: "2027-01-15" },
+  { version: "10.0.47", releaseDate: "2026-04-17", autoUpdateDate: "2026-05-22", endOfServiceDate: "2027-04-16" },
+  { version: "10.0.48", releaseDate: "2026-07-17", autoUpdateDate: "2026-08-21", endOfServiceDate: "2027-07-16" },
+  { version: "10.0.49", releaseDate: "2026-10-16", autoUpdateDate: "2026-11-20", endOfServiceDate: "2027-10-15" },
+  { version: "10.0.50", releaseDate: "2027-01-15", autoUpdateDate: "2027-02-19", endOfServiceDate: "2028-01-14", notes: "Planned" },
+];
+
+let catalog: ServiceUpdate[] | null = null;
+
+function validateEntry(entry: unknown, index: number): ServiceUpdate {
+  const e = entry as Partial<ServiceUpdate>;
+  const dates = [e.releaseDate, e.autoUpdateDate, e.endOfServiceDate];
+  if (typeof e.version !== "string" || dates.some((d) => typeof d !== "string" || !isIsoDate(d))) {
+    throw new Error(
+      `Entry ${index} must have a version and YYYY-MM-DD releaseDate, autoUpdateDate, and endOfServiceDate`
+    );
+  }
+  return e as ServiceUpdate;
+}
+
+/** Load a catalog from a JSON file containing an array of service updates */
+export function loadVersionCatalogFile(filePath: string): ServiceUpdate[] {
+  const parsed: unknown = JSON.parse(readFileSync(filePath, "utf-8"));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Version catalog ${filePath} must contain a JSON array`);
+  }
+  return parsed.map(validateEntry);
+}
+
+/** The active catalog, sorted by version */
+export function getVersionCatalog(): ServiceUpdate[] {
+  if (!catalog) {
+    const filePath = process.env.FASTTRACK_VERSION_CATALOG;
+    let entries = DEFAULT_CATALOG;
+    if (filePath) {
+      try {
+        entries = loadVersionCatalogFile(filePath);
+        logger.info(`Loaded ${entries.length} service updates from ${filePath}`);
+      } catch (err) {
+        logger.error(`Failed to load version catalog ${filePath}, using built-in calendar:`, err);
+      }
+    }
+    catalog = [...entries].sort((a, b) => compareVersions(a.version, b.version));
+  }
+  return catalog;
+}
+
+export function findServiceUpdate(version: string): ServiceUpdate | undefined {
+  return getVersionCatalog().find((u) => compareVersions(u.version, version) === 0);
+}
+
+/**
+ * Support status of a version today and relative to the customer's go-live:
+ * the version should stay in service through go-live plus hypercare.
+ */
+export function assessVersionSupport(version: string, goLiveDate?: string, today = todayIso()): VersionSupport {
+  const update = findServiceUpdate(version);
+  if (!update) return { version, status: "Unknown" };
+
+  const daysToEndOfService = daysBetween(today, update.endOfServiceDate);
+  let status: VersionSupport["status"] = "Supported";
+  if (daysToEndOfService < 0) {
+    status = "Unsupported";
+  } else if (goLiveDate && goLiveDate >= today) {
+    if (update.endOfServiceDate < goLiveDate) {
+      status = "Ends Before Go-Live";
+    } else if (update.endOfServiceDate < addDays(goLiveDate, HYPERCARE_DAYS)) {
+      status = "Ends During Hypercare";
+    }
+  }
+
+  return { version, status, update, daysToEndOfService };
+}
+
+/**
+ * Oldest released version that stays supported through go-live plus
+ * hypercare (or for the next year when no go-live is planned).
+ */
+export function recommendedTargetVersion(goLiveDate?: string, today = todayIso()): ServiceUpdate | undefined {
+  const start = goLiveDate && goLiveDate > today ? goLiveDate : today;
+  const mustCover = addDays(start, goLiveDate ? HYPERCARE_DAYS : 365);
+  return getVersionCatalog().find(
+    (u) => u.releaseDate <= today && u.endOfServiceDate >= mustCover
+  ) ?? getVersionCatalog().filter((u) => u.releaseDate <= today).at(-1);
+}
@@ -26,12 +26,15 @@ Please use the FastTrack MCP tools to gather all available data:
 2. Call get_environments with customerId "${customerId}" for environment info
 3. Call validate_environment_readiness with customerId "${customerId}" for env validation
 4. Call get_implementation_checklist with customerId "${customerId}" for progress
+5. Call get_checklist_item for critical Completed items to review their comments and evidence; treat completion without evidence as unverified
+6. Call list_raid_items with customerId "${customerId}" for open risks, assumptions, issues, and decisions (also available as the fasttrack://customers/${customerId}/raid resource)
 
 Then provide a comprehensive Go-Live Readiness assessment covering:
 
 ### 1. Project Readiness
 - Implementation progress against plan
 - Outstanding blockers or critical items
+- Completed items backed by evidence vs. unverified
 - Change management and training status
 
 ### 2. Solution Readiness
@@ -54,7 +57,7 @@ Then provide a comprehensive Go-Live Readiness assessment covering:
 ### 5. Go/No-Go Recommendation
 - Clear GO or NO-GO recommendation with justification
 - If NO-GO: specific items that must be resolved
-- If GO: remaining risk items and mitigation plans
+- If GO: remaining risk items and mitigation plans, drawn from the RAID log
 
 ### Risk Rating
 Assign an overall risk rating: LOW / MEDIUM / HIGH / CRITICAL`,
@@ -1,5 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { lookupCustomer } from "../data/customerResolver.js";
+import { currentPhase } from "../data/lifecycle.js";
 
 export function registerImplementationReviewPrompt(server: McpServer): void {
   server.prompt(
@@ -8,25 +10,34 @@ export function registerImplementationReviewPrompt(server: McpServer): void {
     {
       customerName: z.string().describe("Customer name"),
       modules: z.string().describe("Comma-separated D365 modules in scope"),
+      customerId: z
+        .string()
+        .optional()
+        .describe("Customer ID for data lookup. Default: looked up by customerName"),
       phase: z
         .enum(["Initiate", "Implement", "Prepare", "Operate"])
-        .describe("Current implementation phase"),
+        .optional()
+        .describe("Implementation phase, only for customers not tracked by the server. Tracked customers use their recorded phase"),
       concerns: z
         .string()
         .optional()
         .describe("Any specific concerns or focus areas"),
     },
-    ({ customerName, modules, phase, concerns }) => ({
-      messages: [
-        {
-          role: "user" as const,
-          content: {
-            type: "text" as const,
-            text: `You are a Microsoft FastTrack Solution Architect conducting an implementation review for a Dynamics 365 Finance & Operations project.
+    ({ customerName, modules, customerId, phase, concerns }) => {
+      const customer = lookupCustomer(customerId ?? customerName).customer;
+      const reviewPhase = customer ? currentPhase(customer) : phase;
+
+      return {
+        messages: [
+          {
+            role: "user" as const,
+            content: {
+              type: "text" as const,
+              text: `You are a Microsoft FastTrack Solution Architect conducting an implementation review for a Dynamics 365 Finance & Operations project.
 
-## Customer: ${customerName}
+## Customer: ${customerName}${customer ? ` (${customer.id})` : ""}
 ## Modules in Scope: ${modules}
-## Current Phase: ${phase}
+## Current Phase: ${reviewPhase ?? "Unknown (not tracked by the server)"}
 ${concerns ? `## Specific Concerns: ${concerns}` : ""}
 
 Please conduct a thorough review covering:
@@ -59,10 +70,15 @@ Please conduct a thorough review covering:
    - Best practices to adopt
    - Risks to mitigate
 
-Use the FastTrack MCP tools (list_customers, get_implementation_checklist, validate_environment_readiness, search_best_practices) to gather data about this customer before providing your assessment.`,
+Use the FastTrack MCP tools (list_customers, get_implementation_checklist, validate_environment_readiness, search_best_practices) to gather data about this customer before providing your assessment.${
+                customer
+                  ? ` Call evaluate_phase_gate with customerId "${customer.id}" to check the exit criteria for the ${reviewPhase} phase.`
+                  : ""
+              }`,
+            },
           },
-        },
-      ],
-    })
+        ],
+      };
+    }
   );
 }
@@ -0,0 +1,20 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getChecklistTemplates } from "../data/templates/checklistTemplates.js";
+
+export function registerChecklistTemplateResources(server: McpServer): void {
+  // Static resource: checklist templates (built-in and custom, all versions)
+  server.resource(
+    "checklist-templates",
+    "fasttrack://checklist-templates",
+    { mimeType: "application/json" },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(getChecklistTemplates(), null, 2),
+        },
+      ],
+    })
+  );
+}
@@ -1,5 +1,8 @@
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { store } from "../data/store.js";
+import { queryChanges } from "../data/changeLog.js";
+import { contactsForCustomer } from "../data/contacts.js";
+import { raidItemsForCustomer, raidScore } from "../data/raid.js";
 
 export function registerCustomerResources(server: McpServer): void {
   // Static resource: list of all customers
@@ -8,7 +11,7 @@ export function registerCustomerResources(server: McpServer): void {
     "fasttrack://customers",
     { mimeType: "application/json" },
     async (uri) => {
-      const customers = Array.from(store.customers.values());
+      const customers = store.customers.list();
       return {
         contents: [
           {
@@ -40,17 +43,84 @@ export function registerCustomerResources(server: McpServer): void {
         };
       }
 
-      const environments = Array.from(store.environments.values()).filter(
+      const environments = store.environments.filter(
         (e) => e.customerId === customer.id
       );
       const checklist = store.checklists.get(customer.id) || [];
+      const contacts = contactsForCustomer(customer.id);
 
       return {
         contents: [
           {
             uri: uri.href,
             mimeType: "application/json",
-            text: JSON.stringify({ customer, environments, checklist }, null, 2),
+            text: JSON.stringify({ customer, environments, checklist, contacts }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+  // Dynamic resource: change history for a customer
+  server.resource(
+    "customer-history",
+    new ResourceTemplate("fasttrack://customers/{customerId}/history", { list: undefined }),
+    { mimeType: "application/json" },
+    async (uri, { customerId }) => {
+      if (!store.customers.has(customerId as string)) {
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "text/plain",
+              text: `Customer not found: ${customerId}`,
+            },
+          ],
+        };
+      }
+
+      const history = queryChanges({ customerId: customerId as string });
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(history, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // Dynamic resource: RAID log for a customer
+  server.resource(
+    "customer-raid",
+    new ResourceTemplate("fasttrack://customers/{customerId}/raid", { list: undefined }),
+    { mimeType: "application/json" },
+    async (uri, { customerId }) => {
+      if (!store.customers.has(customerId as string)) {
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "text/plain",
+              text: `Customer not found: ${customerId}`,
+            },
+          ],
+        };
+      }
+
+      const raid = raidItemsForCustomer(customerId as string).map((item) => ({
+        ...item,
+        score: raidScore(item) ?? null,
+      }));
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(raid, null, 2),
           },
         ],
       };
@@ -1,8 +1,14 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerCustomerResources } from "./customerResource.js";
 import { registerMethodologyResources } from "./methodologyResource.js";
+import { registerModuleResources } from "./moduleResource.js";
+import { registerRulePackResources } from "./rulePackResource.js";
+import { registerChecklistTemplateResources } from "./checklistTemplateResource.js";
 
 export function registerAllResources(server: McpServer): void {
   registerCustomerResources(server);
   registerMethodologyResources(server);
+  registerModuleResources(server);
+  registerRulePackResources(server);
+  registerChecklistTemplateResources(server);
 }
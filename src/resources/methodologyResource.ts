@@ -85,7 +85,7 @@ The FastTrack for Dynamics 365 methodology guides enterprise implementations thr
           {
             uri: uri.href,
             mimeType: "application/json",
-            text: JSON.stringify(store.bestPractices, null, 2),
+            text: JSON.stringify(store.bestPractices.list(), null, 2),
           },
         ],
       };
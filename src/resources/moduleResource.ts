@@ -0,0 +1,26 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { MODULE_CATALOG, childModules } from "../data/moduleCatalog.js";
+
+export function registerModuleResources(server: McpServer): void {
+  // Static resource: canonical D365 module catalog with aliases and hierarchy
+  server.resource(
+    "module-catalog",
+    "fasttrack://modules",
+    { mimeType: "application/json" },
+    async (uri) => {
+      const modules = MODULE_CATALOG.map((m) => ({
+        ...m,
+        children: childModules(m.name).map((c) => c.name),
+      }));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(modules, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
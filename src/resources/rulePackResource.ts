@@ -0,0 +1,20 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getRulePacks } from "../data/rules/rulePacks.js";
+
+export function registerRulePackResources(server: McpServer): void {
+  // Static resource: environment readiness rule packs (built-in and custom)
+  server.resource(
+    "rule-packs",
+    "fasttrack://rule-packs",
+    { mimeType: "application/json" },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(getRulePacks(), null, 2),
+        },
+      ],
+    })
+  );
+}
@@ -0,0 +1,94 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { queryChanges } from "../../data/changeLog.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import type { ChangeLogEntry } from "../../types/index.js";
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.substring(0, 77)}...` : text;
+}
+
+export function formatChangeEntry(entry: ChangeLogEntry): string {
+  const header = `- **${entry.timestamp}** — ${entry.action} ${entry.entityType} \`${entry.entityId}\` by ${entry.changedBy}`;
+  const lines = [header];
+
+  if (entry.action === "update") {
+    for (const change of entry.changes) {
+      lines.push(
+        `  - ${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`
+      );
+    }
+  }
+  if (entry.reason) {
+    lines.push(`  - Reason: ${entry.reason}`);
+  }
+
+  return lines.join("\n");
+}
+
+export function registerGetChangeHistory(server: McpServer): void {
+  server.tool(
+    "get_change_history",
+    "Get the audit trail of changes made to customers, environments, checklist items, and contacts — who changed what, when, with before/after values.",
+    {
+      customerId: z
+        .string()
+        .optional()
+        .describe("Limit to changes for this customer — ID (e.g. cust-001) or name"),
+      entityType: z
+        .enum(["customer", "environment", "checklistItem", "contact", "raidItem", "deployment"])
+        .optional()
+        .describe("Limit to one entity type"),
+      entityId: z
+        .string()
+        .optional()
+        .describe("Limit to one record (e.g. env-002, chk-003)"),
+      since: z
+        .string()
+        .optional()
+        .describe("Only changes at or after this ISO date/time"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Maximum number of entries to return. Default: 50"),
+    },
+    async ({ customerId, entityType, entityId, since, limit }) => {
+      const lookup = customerId ? lookupCustomer(customerId) : undefined;
+      if (lookup && !lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup?.customer;
+
+      const entries = queryChanges({
+        customerId: customer?.id,
+        entityType,
+        entityId,
+        since,
+        limit: limit ?? 50,
+      });
+
+      if (entries.length === 0) {
+        return {
+          content: [{ type: "text", text: "No changes recorded matching the criteria." }],
+        };
+      }
+
+      const title = customer ? `Change History — ${customer.name}` : "Change History";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## ${title} (${entries.length})\n\n${entries.map(formatChangeEntry).join("\n")}`,
+          },
+        ],
+      };
+    }
+  );
+}
@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { store } from "../../data/store.js";
+import { moduleLineage, moduleMatchesFilter } from "../../data/moduleCatalog.js";
 
 export function registerSearchBestPractices(server: McpServer): void {
   server.tool(
@@ -14,18 +15,22 @@ export function registerSearchBestPractices(server: McpServer): void {
       module: z
         .string()
         .optional()
-        .describe("Filter by D365 module (e.g. Finance, Supply Chain Management, General)"),
+        .describe("Filter by D365 module or alias (e.g. Finance, SCM, WMS, General). Includes sub-modules and guidance for parent modules."),
       severity: z
         .enum(["Critical", "High", "Medium", "Low"])
         .optional()
         .describe("Filter by severity level"),
     },
     async ({ query, module, severity }) => {
-      let results = [...store.bestPractices];
+      let results = store.bestPractices.list();
 
       if (module) {
+        // Guidance for a parent module (e.g. SCM) also applies to its sub-modules
+        const lineage = moduleLineage(module);
         results = results.filter(
-          (bp) => bp.module.toLowerCase().includes(module.toLowerCase())
+          (bp) =>
+            moduleMatchesFilter(bp.module, module) ||
+            lineage.includes(bp.module)
         );
       }
 
@@ -0,0 +1,213 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { recordChange } from "../../data/changeLog.js";
+import {
+  CONTACT_ROLES,
+  contactsForCustomer,
+  isValidEmail,
+  isValidTimezone,
+  searchContacts,
+} from "../../data/contacts.js";
+import { resolveActor } from "../../utils/identity.js";
+import type { Contact } from "../../types/index.js";
+
+function contactLine(contact: Contact, customerName?: string): string {
+  const details = [
+    contact.role,
+    contact.organization,
+    contact.email,
+    contact.timezone,
+    contact.phone,
+  ].filter(Boolean);
+  return `- **${contact.name}** (${contact.id})${customerName ? ` — ${customerName}` : ""}\n  ${details.join(" | ")}${contact.notes ? `\n  ${contact.notes}` : ""}`;
+}
+
+export function registerManageContacts(server: McpServer): void {
+  server.tool(
+    "add_contact",
+    "Add a stakeholder contact (executive sponsor, PM, partner lead, architects, etc.) to a customer engagement. Checklist item owners can reference contacts by name, email, or role.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      name: z.string().describe("Full name"),
+      role: z.enum(CONTACT_ROLES).describe("Role on the engagement"),
+      organization: z
+        .enum(["Customer", "Partner", "Microsoft"])
+        .describe("Organization the contact works for"),
+      email: z.string().optional().describe("Email address"),
+      timezone: z.string().optional().describe("IANA time zone (e.g. America/New_York, Europe/Amsterdam)"),
+      phone: z.string().optional().describe("Phone number"),
+      notes: z.string().optional().describe("Optional notes"),
+    },
+    async ({ customerId, name, role, organization, email, timezone, phone, notes }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const errors: string[] = [];
+      if (!name.trim()) {
+        errors.push("name cannot be empty.");
+      }
+      if (email && !isValidEmail(email)) {
+        errors.push(`email "${email}" is not a valid address.`);
+      }
+      if (timezone && !isValidTimezone(timezone)) {
+        errors.push(`timezone "${timezone}" is not a valid IANA time zone (e.g. Europe/London).`);
+      }
+      if (
+        email &&
+        contactsForCustomer(customer.id).some((c) => c.email?.toLowerCase() === email.toLowerCase())
+      ) {
+        errors.push(`a contact with email ${email} already exists for ${customer.name}.`);
+      }
+
+      if (errors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `Contact not added:\n${errors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
+      }
+
+      const now = new Date().toISOString();
+      const contact: Contact = {
+        id: store.nextId("ctc"),
+        customerId: customer.id,
+        name: name.trim(),
+        role,
+        organization,
+        email,
+        timezone,
+        phone,
+        notes,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      store.contacts.set(contact.id, contact);
+      recordChange({
+        entityType: "contact",
+        entityId: contact.id,
+        customerId: customer.id,
+        action: "create",
+        after: contact,
+        changedBy: resolveActor(extra),
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Contact added for ${customer.name}.\n\n**ID:** ${contact.id}\n**Name:** ${contact.name}\n**Role:** ${role} (${organization})${email ? `\n**Email:** ${email}` : ""}${timezone ? `\n**Time zone:** ${timezone}` : ""}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "list_contacts",
+    "List the stakeholder contacts for a customer engagement. Optionally filter by role or organization.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      role: z.enum(CONTACT_ROLES).optional().describe("Filter by role"),
+      organization: z
+        .enum(["Customer", "Partner", "Microsoft"])
+        .optional()
+        .describe("Filter by organization"),
+    },
+    async ({ customerId, role, organization }) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      let contacts = contactsForCustomer(customer.id);
+      if (role) {
+        contacts = contacts.filter((c) => c.role === role);
+      }
+      if (organization) {
+        contacts = contacts.filter((c) => c.organization === organization);
+      }
+
+      if (contacts.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No contacts found for ${customer.name} matching the criteria. Use add_contact to add one.`,
+            },
+          ],
+        };
+      }
+
+      // Group by organization
+      const grouped: Record<string, Contact[]> = {};
+      for (const contact of contacts) {
+        if (!grouped[contact.organization]) grouped[contact.organization] = [];
+        grouped[contact.organization].push(contact);
+      }
+
+      let output = `## Contacts — ${customer.name} (${contacts.length})\n\n`;
+      for (const [org, members] of Object.entries(grouped)) {
+        output += `### ${org}\n${members.map((c) => contactLine(c)).join("\n")}\n\n`;
+      }
+
+      return {
+        content: [{ type: "text", text: output.trimEnd() }],
+      };
+    }
+  );
+
+  server.tool(
+    "search_contacts",
+    "Search stakeholder contacts by name, email, role, organization, or notes — across all customers or within one.",
+    {
+      query: z.string().describe("Search text (e.g. 'data architect', 'priya', 'contoso.com')"),
+      customerId: z
+        .string()
+        .optional()
+        .describe("Limit the search to one customer — ID (e.g. cust-001) or name"),
+    },
+    async ({ query, customerId }) => {
+      const lookup = customerId ? lookupCustomer(customerId) : undefined;
+      if (lookup && !lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+
+      const scope = lookup?.customer
+        ? contactsForCustomer(lookup.customer.id)
+        : store.contacts.list();
+      const matches = searchContacts(query, scope);
+
+      if (matches.length === 0) {
+        return {
+          content: [{ type: "text", text: `No contacts found matching "${query}".` }],
+        };
+      }
+
+      const output = matches
+        .map((m) => contactLine(m.contact, store.customers.get(m.contact.customerId)?.name))
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## Contacts matching "${query}" (${matches.length})\n\n${output}`,
+          },
+        ],
+      };
+    }
+  );
+}
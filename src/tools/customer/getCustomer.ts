@@ -1,38 +1,32 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { store } from "../../data/store.js";
+import { allowedGeographies } from "../../data/geographies.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { contactsForCustomer } from "../../data/contacts.js";
+import { currentPhase } from "../../data/lifecycle.js";
 
 export function registerGetCustomer(server: McpServer): void {
   server.tool(
     "get_customer",
-    "Get detailed information about a specific FastTrack customer by ID or name.",
+    "Get detailed information about a specific FastTrack customer by ID or name. Names are fuzzy-matched (partial names and typos are tolerated); if several customers match, a ranked candidate list with scores is returned instead.",
     {
       identifier: z
         .string()
         .describe("Customer ID (e.g. cust-001) or customer name"),
     },
     async ({ identifier }) => {
-      // Search by ID first, then by name
-      let customer = store.customers.get(identifier);
-
-      if (!customer) {
-        const byName = Array.from(store.customers.values()).find(
-          (c) => c.name.toLowerCase().includes(identifier.toLowerCase())
-        );
-        customer = byName;
-      }
-
-      if (!customer) {
+      const lookup = lookupCustomer(identifier);
+      if (!lookup.customer) {
         return {
-          content: [
-            { type: "text", text: `Customer not found: "${identifier}". Use list_customers to see available customers.` },
-          ],
+          content: [{ type: "text", text: lookup.message }],
         };
       }
+      const customer = lookup.customer;
 
       // Get environments for this customer
-      const environments = Array.from(store.environments.values()).filter(
-        (e) => e.customerId === customer!.id
+      const environments = store.environments.filter(
+        (e) => e.customerId === customer.id
       );
 
       // Get checklist for this customer
@@ -52,6 +46,20 @@ export function registerGetCustomer(server: McpServer): void {
               .join("\n")
           : "  No environments configured";
 
+      const contacts = contactsForCustomer(customer.id);
+      const contactList =
+        contacts.length > 0
+          ? contacts
+              .map((c) => `  - ${c.name} — ${c.role} (${c.organization})${c.email ? ` — ${c.email}` : ""}`)
+              .join("\n")
+          : "  No contacts recorded";
+
+      const geographies = allowedGeographies(customer);
+      const residency =
+        geographies.length > 0
+          ? `${geographies.join(", ")}${customer.allowedGeographies?.length ? " (override)" : ""}`
+          : "Not mapped";
+
       const detail = `## ${customer.name}
 
 | Field | Value |
@@ -59,15 +67,20 @@ export function registerGetCustomer(server: McpServer): void {
 | ID | ${customer.id} |
 | Industry | ${customer.industry} |
 | Region | ${customer.region} |
+| Data Residency | ${residency} |
 | Engagement | ${customer.engagementType} |
 | Status | ${customer.status} |
+| Phase | ${currentPhase(customer)}${customer.currentPhase ? "" : " (inferred from status)"} |
 | Go-Live Date | ${customer.goLiveDate || "TBD"} |
 | Architect | ${customer.assignedArchitect || "Unassigned"} |
-| Modules | ${customer.d365Modules.join(", ")} |
+| Modules | ${customer.d365Modules.join(", ")} |${customer.archivedAt ? `\n| Archived | ${customer.archivedAt} |` : ""}
 
 ### Environments
 ${envList}
 
+### Contacts
+${contactList}
+
 ### Implementation Progress
 - Total items: ${checklistSummary.total}
 - Completed: ${checklistSummary.completed}
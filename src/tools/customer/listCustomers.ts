@@ -1,21 +1,27 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { store } from "../../data/store.js";
+import { moduleMatchesFilter } from "../../data/moduleCatalog.js";
 
 export function registerListCustomers(server: McpServer): void {
   server.tool(
     "list_customers",
-    "List all FastTrack customer engagements. Optionally filter by status, region, or module.",
+    "List all FastTrack customer engagements. Optionally filter by status, region, or module. Archived customers are hidden unless includeArchived is set.",
     {
       status: z
         .enum(["Active", "Onboarding", "Go-Live", "Post-Go-Live", "Completed"])
         .optional()
         .describe("Filter by engagement status"),
       region: z.string().optional().describe("Filter by region (e.g. North America, Europe)"),
-      module: z.string().optional().describe("Filter by D365 module (e.g. Finance, Supply Chain Management)"),
+      module: z.string().optional().describe("Filter by D365 module or alias (e.g. Finance, SCM). Includes sub-modules."),
+      includeArchived: z.boolean().optional().describe("Include archived customers. Default: false"),
     },
-    async ({ status, region, module }) => {
-      let customers = Array.from(store.customers.values());
+    async ({ status, region, module, includeArchived }) => {
+      let customers = store.customers.list();
+
+      if (!includeArchived) {
+        customers = customers.filter((c) => !c.archivedAt);
+      }
 
       if (status) {
         customers = customers.filter((c) => c.status === status);
@@ -27,9 +33,7 @@ export function registerListCustomers(server: McpServer): void {
       }
       if (module) {
         customers = customers.filter((c) =>
-          c.d365Modules.some((m) =>
-            m.toLowerCase().includes(module.toLowerCase())
-          )
+          c.d365Modules.some((m) => moduleMatchesFilter(m, module))
         );
       }
 
@@ -42,7 +46,7 @@ export function registerListCustomers(server: McpServer): void {
       const summary = customers
         .map(
           (c) =>
-            `- **${c.name}** (${c.id})\n  Status: ${c.status} | Region: ${c.region} | Type: ${c.engagementType}\n  Modules: ${c.d365Modules.join(", ")}\n  Go-Live: ${c.goLiveDate || "TBD"}${c.assignedArchitect ? `\n  Architect: ${c.assignedArchitect}` : ""}`
+            `- **${c.name}** (${c.id})${c.archivedAt ? " — archived" : ""}\n  Status: ${c.status} | Region: ${c.region} | Type: ${c.engagementType}\n  Modules: ${c.d365Modules.join(", ")}\n  Go-Live: ${c.goLiveDate || "TBD"}${c.assignedArchitect ? `\n  Architect: ${c.assignedArchitect}` : ""}`
         )
         .join("\n\n");
 
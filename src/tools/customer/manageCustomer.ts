@@ -1,8 +1,38 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { diffFields, recordChange } from "../../data/changeLog.js";
+import { resolveActor } from "../../utils/identity.js";
+import { normalizeModules } from "../../data/moduleCatalog.js";
+import {
+  allowedTransitions,
+  comparePhases,
+  currentPhase as trackedPhase,
+  evaluateTransition,
+  phaseForStatusChange,
+} from "../../data/lifecycle.js";
+import { contactsForCustomer } from "../../data/contacts.js";
+import { deleteDeployments } from "../../data/deployments.js";
+import { deleteEnvironmentEvents } from "../../data/environmentEvents.js";
+import { evaluatePhaseGatesUntil } from "../../data/phaseGates.js";
+import { deleteProgressSnapshots } from "../../data/progressSnapshots.js";
+import { raidItemsForCustomer } from "../../data/raid.js";
+import { isIsoDate } from "../../utils/validation.js";
+import { GEOGRAPHIES, parseGeographies } from "../../data/geographies.js";
 import type { Customer } from "../../types/index.js";
 
+function formatField(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+function unrecognizedWarning(unrecognized: string[]): string {
+  return unrecognized.length > 0
+    ? `\n\nWarning: not in the module catalog (kept as entered): ${unrecognized.join(", ")}. See fasttrack://modules for canonical names.`
+    : "";
+}
+
 export function registerManageCustomer(server: McpServer): void {
   server.tool(
     "add_customer",
@@ -16,12 +46,35 @@ export function registerManageCustomer(server: McpServer): void {
         .describe("Type of engagement"),
       d365Modules: z
         .string()
-        .describe("Comma-separated list of D365 modules (e.g. Finance, Supply Chain Management)"),
+        .describe("Comma-separated list of D365 modules (e.g. Finance, Supply Chain Management). Aliases like SCM or WMS are normalized."),
       goLiveDate: z.string().optional().describe("Planned go-live date (YYYY-MM-DD)"),
       assignedArchitect: z.string().optional().describe("Assigned solution architect name"),
+      allowedGeographies: z
+        .string()
+        .optional()
+        .describe("Comma-separated data residency override (e.g. Europe, Germany). Default: derived from region"),
     },
-    async ({ name, industry, region, engagementType, d365Modules, goLiveDate, assignedArchitect }) => {
-      const id = `cust-${String(store.customers.size + 1).padStart(3, "0")}`;
+    async ({ name, industry, region, engagementType, d365Modules, goLiveDate, assignedArchitect, allowedGeographies }, extra) => {
+      if (goLiveDate && !isIsoDate(goLiveDate)) {
+        return {
+          content: [{ type: "text", text: `Invalid goLiveDate "${goLiveDate}". Use a real date in YYYY-MM-DD format.` }],
+        };
+      }
+
+      const residency = allowedGeographies ? parseGeographies(allowedGeographies) : undefined;
+      if (residency && residency.unrecognized.length > 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Unknown geography: ${residency.unrecognized.join(", ")}. Known geographies: ${GEOGRAPHIES.join(", ")}.`,
+            },
+          ],
+        };
+      }
+
+      const { modules, unrecognized } = normalizeModules(d365Modules);
+      const id = store.nextId("cust");
       const now = new Date().toISOString();
 
       const customer: Customer = {
@@ -31,20 +84,30 @@ export function registerManageCustomer(server: McpServer): void {
         region,
         engagementType,
         status: "Onboarding",
-        d365Modules: d365Modules.split(",").map((m) => m.trim()),
+        currentPhase: "Initiate",
+        d365Modules: modules,
         goLiveDate,
         assignedArchitect,
+        ...(residency?.geographies.length && { allowedGeographies: residency.geographies }),
         createdAt: now,
         updatedAt: now,
       };
 
       store.customers.set(id, customer);
+      recordChange({
+        entityType: "customer",
+        entityId: id,
+        customerId: id,
+        action: "create",
+        after: customer,
+        changedBy: resolveActor(extra),
+      });
 
       return {
         content: [
           {
             type: "text",
-            text: `Customer added successfully.\n\n**ID:** ${id}\n**Name:** ${name}\n**Status:** Onboarding\n**Modules:** ${customer.d365Modules.join(", ")}`,
+            text: `Customer added successfully.\n\n**ID:** ${id}\n**Name:** ${name}\n**Status:** Onboarding\n**Modules:** ${customer.d365Modules.join(", ")}${unrecognizedWarning(unrecognized)}`,
           },
         ],
       };
@@ -53,34 +116,449 @@ export function registerManageCustomer(server: McpServer): void {
 
   server.tool(
     "update_customer_status",
-    "Update the status of an existing customer engagement.",
+    "Move a customer engagement through its lifecycle (Onboarding → Active → Go-Live → Post-Go-Live → Completed). Each forward transition has gate checks; the tool refuses with the list of unmet gates unless an overrideReason is supplied, which is recorded in the change history. Moving forward also advances the tracked implementation phase when the new status implies a later one; the exit gates of the phases left behind are checked and overridden the same way.",
     {
-      customerId: z.string().describe("Customer ID (e.g. cust-001)"),
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
       status: z
         .enum(["Active", "Onboarding", "Go-Live", "Post-Go-Live", "Completed"])
         .describe("New engagement status"),
       notes: z.string().optional().describe("Optional notes about the status change"),
+      overrideReason: z
+        .string()
+        .optional()
+        .describe("Justification for proceeding despite unmet gates. Recorded in the change history."),
     },
-    async ({ customerId, status, notes }) => {
-      const customer = store.customers.get(customerId);
-      if (!customer) {
+    async ({ customerId, status, notes, overrideReason }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      if (customer.status === status) {
         return {
-          content: [{ type: "text", text: `Customer not found: ${customerId}` }],
+          content: [{ type: "text", text: `Customer **${customer.name}** is already in status ${status}.` }],
         };
       }
 
+      const evaluation = evaluateTransition(customer, status);
+      if (!evaluation.allowed) {
+        const allowed = allowedTransitions(customer.status);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Transition not allowed: ${customer.status} → ${status}.\nAllowed from ${customer.status}: ${allowed.join(", ") || "none"}.`,
+            },
+          ],
+        };
+      }
+
+      // A status change that moves the tracked phase forward must also clear the phase exit gates on the way
+      const phase = phaseForStatusChange(customer, status);
+      const phaseGates = phase ? evaluatePhaseGatesUntil(customer, phase) : [];
+      const unmetPhaseGates = phaseGates.flatMap((e) => e.unmetGates.map((g) => ({ ...g, phase: e.phase })));
+      const unmet = [
+        ...evaluation.unmetGates.map((g) => `- ${g.description}${g.detail ? ` — ${g.detail}` : ""}`),
+        ...unmetPhaseGates.map((g) => `- ${g.phase} exit: ${g.description}${g.detail ? ` — ${g.detail}` : ""}`),
+      ];
+      if (unmet.length > 0 && !overrideReason?.trim()) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Cannot move **${customer.name}** from ${customer.status} to ${status}. Unmet gates:\n${unmet.join("\n")}\n\nResolve these, or call update_customer_status again with an overrideReason to proceed anyway.`,
+            },
+          ],
+        };
+      }
+
+      const before = { ...customer };
       const previousStatus = customer.status;
+      if (phase) customer.currentPhase = phase;
       customer.status = status;
       customer.updatedAt = new Date().toISOString();
       if (notes) {
         customer.notes = notes;
       }
 
+      const override =
+        unmet.length > 0
+          ? `Gate override: ${overrideReason!.trim()} (unmet: ${[
+              ...evaluation.unmetGates.map((g) => g.id),
+              ...unmetPhaseGates.map((g) => `${g.phase.toLowerCase()}:${g.id}`),
+            ].join(", ")})`
+          : undefined;
+
+      store.customers.set(customer.id, customer);
+      recordChange({
+        entityType: "customer",
+        entityId: customer.id,
+        customerId: customer.id,
+        action: "update",
+        before,
+        after: customer,
+        changedBy: resolveActor(extra),
+        reason:
+          [
+            notes,
+            override,
+            phase && unmetPhaseGates.length === 0
+              ? `${phaseGates.map((e) => e.phase).join(", ")} phase gate passed`
+              : undefined,
+          ]
+            .filter(Boolean)
+            .join(" | ") || undefined,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Customer **${customer.name}** status updated: ${previousStatus} → ${status}${
+              phase ? `\nPhase: ${before.currentPhase} → ${phase}` : ""
+            }${notes ? `\nNotes: ${notes}` : ""}${override ? `\n\n**Gates overridden:**\n${unmet.join("\n")}\nReason: ${overrideReason!.trim()}` : ""}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "update_customer",
+    "Update one or more fields of an existing customer engagement. Only the fields provided are changed; pass an empty string to clear an optional field. Use update_customer_status to change the status.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      name: z.string().optional().describe("Customer/organization name"),
+      industry: z.string().optional().describe("Industry (e.g. Manufacturing, Retail, Distribution)"),
+      region: z.string().optional().describe("Region (e.g. North America, Europe, Asia Pacific)"),
+      engagementType: z
+        .enum(["FastTrack", "Unified", "Direct"])
+        .optional()
+        .describe("Type of engagement"),
+      d365Modules: z
+        .string()
+        .optional()
+        .describe("Comma-separated list of D365 modules — replaces the current list"),
+      goLiveDate: z.string().optional().describe("Planned go-live date (YYYY-MM-DD), or empty to clear"),
+      assignedArchitect: z.string().optional().describe("Assigned solution architect name, or empty to clear"),
+      notes: z.string().optional().describe("Engagement notes, or empty to clear"),
+      allowedGeographies: z
+        .string()
+        .optional()
+        .describe("Comma-separated data residency override (e.g. Europe, Germany) — replaces the current list; empty to use the region default"),
+      currentPhase: z
+        .enum(["Initiate", "Implement", "Prepare", "Operate"])
+        .optional()
+        .describe(
+          "Move the implementation phase back. Use evaluate_phase_gate to advance through the exit gate; moving forward here requires an overrideReason"
+        ),
+      overrideReason: z
+        .string()
+        .optional()
+        .describe("Why the phase exit gate is being skipped; required to move currentPhase forward and recorded in the change history"),
+    },
+    async (
+      {
+        customerId,
+        name,
+        industry,
+        region,
+        engagementType,
+        d365Modules,
+        goLiveDate,
+        assignedArchitect,
+        notes,
+        allowedGeographies,
+        currentPhase,
+        overrideReason,
+      },
+      extra
+    ) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const errors: string[] = [];
+      if (name !== undefined && !name.trim()) {
+        errors.push("name cannot be empty.");
+      }
+      if (industry !== undefined && !industry.trim()) {
+        errors.push("industry cannot be empty.");
+      }
+      if (region !== undefined && !region.trim()) {
+        errors.push("region cannot be empty.");
+      }
+      if (goLiveDate && !isIsoDate(goLiveDate)) {
+        errors.push(`goLiveDate "${goLiveDate}" is not a valid date. Use YYYY-MM-DD.`);
+      }
+      const phaseSkipped = currentPhase !== undefined && comparePhases(currentPhase, trackedPhase(customer)) > 0;
+      if (phaseSkipped && !overrideReason?.trim()) {
+        errors.push(
+          `currentPhase cannot move forward from ${trackedPhase(customer)} to ${currentPhase} without passing the exit gate. Use evaluate_phase_gate, or supply an overrideReason.`
+        );
+      }
+      const normalized = d365Modules !== undefined ? normalizeModules(d365Modules) : undefined;
+      const modules = normalized?.modules;
+      if (modules && modules.length === 0) {
+        errors.push("d365Modules must list at least one module.");
+      }
+      const residency = allowedGeographies !== undefined ? parseGeographies(allowedGeographies) : undefined;
+      if (residency && residency.unrecognized.length > 0) {
+        errors.push(
+          `unknown geography: ${residency.unrecognized.join(", ")}. Known geographies: ${GEOGRAPHIES.join(", ")}.`
+        );
+      }
+
+      if (errors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `Customer not updated:\n${errors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
+      }
+
+      const before = { ...customer };
+
+      if (name !== undefined) customer.name = name.trim();
+      if (industry !== undefined) customer.industry = industry.trim();
+      if (region !== undefined) customer.region = region.trim();
+      if (engagementType !== undefined) customer.engagementType = engagementType;
+      if (modules !== undefined) customer.d365Modules = modules;
+      if (goLiveDate !== undefined) customer.goLiveDate = goLiveDate || undefined;
+      if (assignedArchitect !== undefined) customer.assignedArchitect = assignedArchitect.trim() || undefined;
+      if (notes !== undefined) customer.notes = notes || undefined;
+      if (residency) {
+        customer.allowedGeographies = residency.geographies.length > 0 ? residency.geographies : undefined;
+      }
+      if (currentPhase !== undefined) customer.currentPhase = currentPhase;
+
+      const changes = diffFields(before, customer);
+      if (changes.length === 0) {
+        return {
+          content: [{ type: "text", text: `No changes to apply for **${customer.name}**.` }],
+        };
+      }
+
+      customer.updatedAt = new Date().toISOString();
+      store.customers.set(customer.id, customer);
+      recordChange({
+        entityType: "customer",
+        entityId: customer.id,
+        customerId: customer.id,
+        action: "update",
+        before,
+        after: customer,
+        changedBy: resolveActor(extra),
+        ...(phaseSkipped && { reason: `Phase gate override: ${overrideReason!.trim()}` }),
+      });
+
+      const diff = changes
+        .map((c) => `| ${c.field} | ${formatField(c.before)} | ${formatField(c.after)} |`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Customer **${customer.name}** (${customer.id}) updated.\n\n| Field | Before | After |\n|-------|--------|-------|\n${diff}${
+              phaseSkipped ? `\n\n**Phase gate overridden.** Reason: ${overrideReason!.trim()}` : ""
+            }${unrecognizedWarning(normalized?.unrecognized ?? [])}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "archive_customer",
+    "Archive a customer engagement so it is hidden from list_customers, or restore an archived one. Archived data is kept intact.",
+    {
+      customerId: z.string().describe("Exact customer ID (e.g. cust-001); names and near matches are not accepted"),
+      restore: z
+        .boolean()
+        .optional()
+        .describe("Set to true to un-archive the customer. Default: false"),
+      reason: z.string().optional().describe("Optional reason for archiving"),
+    },
+    async ({ customerId, restore, reason }, extra) => {
+      const lookup = lookupCustomer(customerId, { exact: true });
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      if (!restore && customer.archivedAt) {
+        return {
+          content: [
+            { type: "text", text: `Customer **${customer.name}** is already archived (since ${customer.archivedAt}).` },
+          ],
+        };
+      }
+      if (restore && !customer.archivedAt) {
+        return {
+          content: [{ type: "text", text: `Customer **${customer.name}** is not archived.` }],
+        };
+      }
+
+      const before = { ...customer };
+      const now = new Date().toISOString();
+      if (restore) {
+        delete customer.archivedAt;
+      } else {
+        customer.archivedAt = now;
+      }
+      customer.updatedAt = now;
+
+      store.customers.set(customer.id, customer);
+      recordChange({
+        entityType: "customer",
+        entityId: customer.id,
+        customerId: customer.id,
+        action: "update",
+        before,
+        after: customer,
+        changedBy: resolveActor(extra),
+        reason,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: restore
+              ? `Customer **${customer.name}** restored from archive.`
+              : `Customer **${customer.name}** archived. Use list_customers with includeArchived to see it.`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "delete_customer",
+    "Permanently delete a customer engagement and its contacts. Refuses if the customer still has environments, checklist items, or RAID log items, unless cascade is set, in which case those are deleted too.",
+    {
+      customerId: z.string().describe("Exact customer ID (e.g. cust-001); names and near matches are not accepted"),
+      cascade: z
+        .boolean()
+        .optional()
+        .describe("Also delete the customer's environments, checklist items, and RAID log items. Default: false"),
+      reason: z.string().optional().describe("Optional reason for the deletion"),
+    },
+    async ({ customerId, cascade, reason }, extra) => {
+      const lookup = lookupCustomer(customerId, { exact: true });
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const environments = store.environments.filter((e) => e.customerId === customer.id);
+      const checklist = store.checklists.get(customer.id) || [];
+      const raidItems = raidItemsForCustomer(customer.id);
+
+      if (!cascade && (environments.length > 0 || checklist.length > 0 || raidItems.length > 0)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Cannot delete **${customer.name}**: it still has ${environments.length} environment(s), ${checklist.length} checklist item(s), and ${raidItems.length} RAID item(s).\n\nRemove them first, call delete_customer again with cascade set to true, or use archive_customer to hide the engagement instead.`,
+            },
+          ],
+        };
+      }
+
+      const changedBy = resolveActor(extra);
+
+      for (const env of environments) {
+        store.environments.delete(env.id);
+        deleteEnvironmentEvents(env.id);
+        deleteDeployments(env.id, changedBy, reason);
+        recordChange({
+          entityType: "environment",
+          entityId: env.id,
+          customerId: customer.id,
+          action: "delete",
+          before: env,
+          changedBy,
+          reason,
+        });
+      }
+      // Deleted before the audit entries so no progress snapshot is captured for it
+      store.checklists.delete(customer.id);
+      for (const item of checklist) {
+        recordChange({
+          entityType: "checklistItem",
+          entityId: item.id,
+          customerId: customer.id,
+          action: "delete",
+          before: item,
+          changedBy,
+          reason,
+        });
+      }
+      deleteProgressSnapshots(customer.id);
+
+      for (const raid of raidItems) {
+        store.raidItems.delete(raid.id);
+        recordChange({
+          entityType: "raidItem",
+          entityId: raid.id,
+          customerId: customer.id,
+          action: "delete",
+          before: raid,
+          changedBy,
+          reason,
+        });
+      }
+
+      const contacts = contactsForCustomer(customer.id);
+      for (const contact of contacts) {
+        store.contacts.delete(contact.id);
+        recordChange({
+          entityType: "contact",
+          entityId: contact.id,
+          customerId: customer.id,
+          action: "delete",
+          before: contact,
+          changedBy,
+          reason,
+        });
+      }
+
+      store.customers.delete(customer.id);
+      recordChange({
+        entityType: "customer",
+        entityId: customer.id,
+        customerId: customer.id,
+        action: "delete",
+        before: customer,
+        changedBy,
+        reason,
+      });
+
+      const cascaded =
+        environments.length > 0 || checklist.length > 0 || raidItems.length > 0
+          ? `\nAlso deleted ${environments.length} environment(s), ${checklist.length} checklist item(s), and ${raidItems.length} RAID item(s).`
+          : "";
+      const removedContacts =
+        contacts.length > 0 ? `\nRemoved ${contacts.length} contact(s).` : "";
+
       return {
         content: [
           {
             type: "text",
-            text: `Customer **${customer.name}** status updated: ${previousStatus} → ${status}${notes ? `\nNotes: ${notes}` : ""}`,
+            text: `Customer **${customer.name}** (${customer.id}) deleted.${cascaded}${removedContacts}`,
           },
         ],
       };
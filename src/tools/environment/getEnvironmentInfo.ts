@@ -1,24 +1,68 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { recordChange } from "../../data/changeLog.js";
+import {
+  deleteEnvironmentEvents,
+  environmentEvents,
+  formatEnvironmentEvent,
+  isValidVersion,
+  recordEnvironmentEvent,
+} from "../../data/environmentEvents.js";
+import { deleteDeployments, deploymentsForEnvironment, formatDeployment } from "../../data/deployments.js";
+import { geographyForRegion } from "../../data/geographies.js";
+import {
+  ENVIRONMENT_PURPOSES,
+  ENVIRONMENT_TIERS,
+  effectivePurpose,
+  effectiveTier,
+} from "../../data/topology.js";
+import { resolveActor } from "../../utils/identity.js";
+import type { D365Environment } from "../../types/index.js";
+
+function statusLabel(environment: D365Environment): string {
+  if (environment.status === "Provisioning" && environment.provisioningStartedAt) {
+    return `Provisioning (since ${environment.provisioningStartedAt.slice(0, 10)})`;
+  }
+  if (environment.status === "Decommissioned" && environment.decommissionedAt) {
+    return `Decommissioned (${environment.decommissionedAt.slice(0, 10)})`;
+  }
+  return environment.status;
+}
+
+function tierLabel(environment: D365Environment): string {
+  const tier = effectiveTier(environment);
+  const label = tier ? `${tier}${environment.tier ? "" : " (default)"}` : "—";
+  return environment.size ? `${label}, ${environment.size}` : label;
+}
 
 export function registerGetEnvironmentInfo(server: McpServer): void {
   server.tool(
     "get_environments",
     "Get D365 F&O environment information for a customer. Lists all environments (Sandbox, UAT, Production, etc.).",
     {
-      customerId: z.string().describe("Customer ID (e.g. cust-001)"),
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      includeEvents: z
+        .boolean()
+        .optional()
+        .describe("Include lifecycle events (provisioning, version upgrades, decommissioning). Default: false"),
+      includeDeployments: z
+        .boolean()
+        .optional()
+        .describe("Include package deployment history. Default: false"),
     },
-    async ({ customerId }) => {
-      const customer = store.customers.get(customerId);
-      if (!customer) {
+    async ({ customerId, includeEvents, includeDeployments }) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
         return {
-          content: [{ type: "text", text: `Customer not found: ${customerId}` }],
+          content: [{ type: "text", text: lookup.message }],
         };
       }
+      const customer = lookup.customer;
 
-      const environments = Array.from(store.environments.values()).filter(
-        (e) => e.customerId === customerId
+      const environments = store.environments.filter(
+        (e) => e.customerId === customer.id
       );
 
       if (environments.length === 0) {
@@ -26,7 +70,7 @@ export function registerGetEnvironmentInfo(server: McpServer): void {
           content: [
             {
               type: "text",
-              text: `No environments configured for ${customer.name} (${customerId}).`,
+              text: `No environments configured for ${customer.name} (${customer.id}).`,
             },
           ],
         };
@@ -35,15 +79,45 @@ export function registerGetEnvironmentInfo(server: McpServer): void {
       const envTable = environments
         .map(
           (e) =>
-            `| ${e.name} | ${e.type} | ${e.region} | v${e.version} | ${e.status} | ${e.lcsProjectId || "N/A"} |`
+            `| ${e.name} (${e.id}) | ${e.type} | ${tierLabel(e)} | ${effectivePurpose(e)} | ${e.region} | v${e.version} | ${statusLabel(e)} | ${e.lcsProjectId || "N/A"} |`
         )
         .join("\n");
 
+      let events = "";
+      if (includeEvents) {
+        events = environments
+          .map((e) => {
+            const history = environmentEvents(e.id);
+            return `### ${e.name} (${e.id})\n${
+              history.length > 0
+                ? history.map((ev) => `- ${formatEnvironmentEvent(ev)}`).join("\n")
+                : "- No lifecycle events recorded"
+            }`;
+          })
+          .join("\n\n");
+        events = `\n\n## Lifecycle Events\n\n${events}`;
+      }
+
+      let deployments = "";
+      if (includeDeployments) {
+        deployments = environments
+          .map((e) => {
+            const history = deploymentsForEnvironment(e.id);
+            return `### ${e.name} (${e.id})\n${
+              history.length > 0
+                ? history.map((d) => `- ${formatDeployment(d)}`).join("\n")
+                : "- No deployments recorded"
+            }`;
+          })
+          .join("\n\n");
+        deployments = `\n\n## Deployments\n\n${deployments}`;
+      }
+
       return {
         content: [
           {
             type: "text",
-            text: `## Environments for ${customer.name}\n\n| Name | Type | Region | Version | Status | LCS Project |\n|------|------|--------|---------|--------|-------------|\n${envTable}`,
+            text: `## Environments for ${customer.name}\n\n| Name | Type | Tier | Purpose | Region | Version | Status | LCS Project |\n|------|------|------|---------|--------|---------|--------|-------------|\n${envTable}${events}${deployments}`,
           },
         ],
       };
@@ -54,7 +128,7 @@ export function registerGetEnvironmentInfo(server: McpServer): void {
     "add_environment",
     "Add a new D365 F&O environment for a customer.",
     {
-      customerId: z.string().describe("Customer ID"),
+      customerId: z.string().describe("Customer ID or name"),
       name: z.string().describe("Environment name (e.g. Contoso-UAT)"),
       type: z
         .enum(["Sandbox", "UAT", "Production", "DevTest", "Build"])
@@ -63,34 +137,125 @@ export function registerGetEnvironmentInfo(server: McpServer): void {
       version: z.string().describe("D365 F&O version (e.g. 10.0.40)"),
       lcsProjectId: z.string().optional().describe("LCS Project ID"),
       url: z.string().optional().describe("Environment URL"),
+      tier: z
+        .enum(ENVIRONMENT_TIERS)
+        .optional()
+        .describe("Sandbox tier. UAT and performance testing need Tier-2 or higher. Default: Tier-2 for UAT, Tier-1 for other sandboxes"),
+      size: z.enum(["Small", "Medium", "Large", "Extra Large"]).optional().describe("Environment size"),
+      purpose: z
+        .enum(ENVIRONMENT_PURPOSES)
+        .optional()
+        .describe("What the environment is used for. Default: derived from type"),
+      status: z
+        .enum(["Active", "Provisioning"])
+        .optional()
+        .describe("Initial status. Use Provisioning for environments still being deployed in LCS/PPAC. Default: Active"),
     },
-    async ({ customerId, name, type, region, version, lcsProjectId, url }) => {
-      const customer = store.customers.get(customerId);
-      if (!customer) {
+    async ({ customerId, name, type, region, version, lcsProjectId, url, tier, size, purpose, status }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
         return {
-          content: [{ type: "text", text: `Customer not found: ${customerId}` }],
+          content: [{ type: "text", text: lookup.message }],
         };
       }
+      const customer = lookup.customer;
 
-      const id = `env-${String(store.environments.size + 1).padStart(3, "0")}`;
+      if (!isValidVersion(version)) {
+        return {
+          content: [{ type: "text", text: `Invalid version "${version}". Use a dotted version such as 10.0.40.` }],
+        };
+      }
+
+      if (type === "Production" && tier) {
+        return {
+          content: [{ type: "text", text: "Tier applies to sandboxes only; omit it for Production environments." }],
+        };
+      }
 
-      store.environments.set(id, {
+      const id = store.nextId("env");
+      const now = new Date().toISOString();
+      const initialStatus = status ?? "Active";
+
+      const environment: D365Environment = {
         id,
-        customerId,
+        customerId: customer.id,
         name,
         type,
         region,
         version,
         lcsProjectId,
         url,
-        status: "Active",
+        tier,
+        size,
+        purpose,
+        status: initialStatus,
+        ...(initialStatus === "Provisioning" && { provisioningStartedAt: now }),
+      };
+
+      store.environments.set(id, environment);
+      recordChange({
+        entityType: "environment",
+        entityId: id,
+        customerId: customer.id,
+        action: "create",
+        after: environment,
+        changedBy: resolveActor(extra),
+      });
+      if (initialStatus === "Provisioning") {
+        recordEnvironmentEvent(environment, "provisioning-started", resolveActor(extra));
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Environment added for ${customer.name}.\n\n**ID:** ${id}\n**Name:** ${name}\n**Type:** ${type}\n**Tier:** ${tierLabel(environment)}\n**Purpose:** ${effectivePurpose(environment)}\n**Version:** v${version}\n**Region:** ${region}\n**Status:** ${initialStatus}${
+              geographyForRegion(region)
+                ? ""
+                : `\n\nWarning: "${region}" is not a known Azure region, so data residency cannot be checked for this environment.`
+            }`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "remove_environment",
+    "Remove a D365 F&O environment record, with its lifecycle events and deployment history, from a customer.",
+    {
+      environmentId: z.string().describe("Environment ID (e.g. env-002)"),
+      reason: z.string().optional().describe("Optional reason for the removal"),
+    },
+    async ({ environmentId, reason }, extra) => {
+      const environment = store.environments.get(environmentId);
+      if (!environment) {
+        return {
+          content: [{ type: "text", text: `Environment not found: ${environmentId}` }],
+        };
+      }
+
+      const changedBy = resolveActor(extra);
+      store.environments.delete(environmentId);
+      const events = deleteEnvironmentEvents(environmentId);
+      const deployments = deleteDeployments(environmentId, changedBy, reason);
+      recordChange({
+        entityType: "environment",
+        entityId: environmentId,
+        customerId: environment.customerId,
+        action: "delete",
+        before: environment,
+        changedBy,
+        reason,
       });
 
       return {
         content: [
           {
             type: "text",
-            text: `Environment added for ${customer.name}.\n\n**ID:** ${id}\n**Name:** ${name}\n**Type:** ${type}\n**Version:** v${version}\n**Region:** ${region}`,
+            text: `Environment **${environment.name}** (${environmentId}) removed.${
+              events > 0 ? `\nRemoved ${events} lifecycle event(s).` : ""
+            }${deployments > 0 ? `\nRemoved ${deployments} deployment(s).` : ""}`,
           },
         ],
       };
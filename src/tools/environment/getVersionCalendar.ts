@@ -0,0 +1,100 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { compareVersions } from "../../data/environmentEvents.js";
+import {
+  HYPERCARE_DAYS,
+  assessVersionSupport,
+  getVersionCatalog,
+  recommendedTargetVersion,
+} from "../../data/versionCatalog.js";
+import { addDays, todayIso } from "../../utils/dates.js";
+
+export function registerGetVersionCalendar(server: McpServer): void {
+  server.tool(
+    "get_version_calendar",
+    "List upcoming D365 F&O service updates affecting a customer: releases, auto-update dates, and end-of-service dates for the versions its environments run, checked against the planned go-live and hypercare window.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      monthsAhead: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("How far ahead to list calendar events, in months. Default: 12 (extended to cover go-live + hypercare)"),
+    },
+    async ({ customerId, monthsAhead }) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const today = todayIso();
+      const hypercareEnd = customer.goLiveDate ? addDays(customer.goLiveDate, HYPERCARE_DAYS) : undefined;
+      let horizon = addDays(today, (monthsAhead ?? 12) * 30);
+      if (hypercareEnd && hypercareEnd > horizon) horizon = hypercareEnd;
+
+      const environments = store.environments.filter(
+        (e) => e.customerId === customer.id && e.status !== "Decommissioned"
+      );
+      const inUse = new Set(environments.map((e) => e.version));
+      const oldestInUse = [...inUse].sort(compareVersions)[0];
+
+      // Calendar events for versions the customer runs or could move to
+      const events: Array<{ date: string; text: string }> = [];
+      for (const update of getVersionCatalog()) {
+        if (oldestInUse && compareVersions(update.version, oldestInUse) < 0) continue;
+        const usedBy = environments.filter((e) => compareVersions(e.version, update.version) === 0);
+        const suffix = usedBy.length > 0 ? ` — in use by ${usedBy.map((e) => e.name).join(", ")}` : "";
+
+        const candidates: Array<[string, string]> = [
+          [update.releaseDate, `v${update.version} generally available`],
+          [update.autoUpdateDate, `v${update.version} auto-update window (older versions are updated automatically)`],
+          [update.endOfServiceDate, `v${update.version} end of service${suffix}`],
+        ];
+        for (const [date, text] of candidates) {
+          if (date >= today && date <= horizon) events.push({ date, text });
+        }
+      }
+      if (customer.goLiveDate && customer.goLiveDate >= today && customer.goLiveDate <= horizon) {
+        events.push({ date: customer.goLiveDate, text: `**${customer.name} go-live**` });
+      }
+      if (hypercareEnd && hypercareEnd >= today && hypercareEnd <= horizon) {
+        events.push({ date: hypercareEnd, text: `End of ${HYPERCARE_DAYS}-day hypercare window` });
+      }
+      events.sort((a, b) => a.date.localeCompare(b.date));
+
+      const envRows = environments.map((e) => {
+        const support = assessVersionSupport(e.version, customer.goLiveDate, today);
+        return `| ${e.name} (${e.id}) | ${e.type} | v${e.version} | ${support.update?.endOfServiceDate ?? "Unknown"} | ${support.status} |`;
+      });
+
+      const target = recommendedTargetVersion(customer.goLiveDate, today);
+
+      let output = `## Version Calendar — ${customer.name}\n\n**Go-Live:** ${customer.goLiveDate || "TBD"}${hypercareEnd ? ` (hypercare through ${hypercareEnd})` : ""}\n`;
+      if (target) {
+        output += `**Recommended minimum version:** v${target.version} (supported until ${target.endOfServiceDate})\n`;
+      }
+
+      output += "\n### Environment Versions\n";
+      output +=
+        envRows.length > 0
+          ? `| Environment | Type | Version | End of Service | Support |\n|-------------|------|---------|----------------|---------|\n${envRows.join("\n")}\n`
+          : "No active environments configured.\n";
+
+      output += `\n### Upcoming Calendar (through ${horizon})\n`;
+      output +=
+        events.length > 0
+          ? events.map((e) => `- ${e.date} — ${e.text}`).join("\n")
+          : "- No service update events in this window.";
+
+      return {
+        content: [{ type: "text", text: output }],
+      };
+    }
+  );
+}
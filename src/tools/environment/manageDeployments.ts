@@ -0,0 +1,215 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { recordChange } from "../../data/changeLog.js";
+import { compareDeployedStates, deployedState, formatDeployment } from "../../data/deployments.js";
+import { resolveActor } from "../../utils/identity.js";
+import { isIsoTimestamp } from "../../utils/validation.js";
+import type { D365Environment, Deployment } from "../../types/index.js";
+
+/** Find an environment by ID, or by exact (case-insensitive) name */
+function findEnvironment(identifier: string): { environment?: D365Environment; message: string } {
+  const byId = store.environments.get(identifier);
+  if (byId) return { environment: byId, message: "" };
+
+  const byName = store.environments.filter(
+    (e) => e.name.toLowerCase() === identifier.trim().toLowerCase()
+  );
+  if (byName.length === 1) return { environment: byName[0], message: "" };
+  if (byName.length > 1) {
+    return {
+      message: `Environment name "${identifier}" is ambiguous: ${byName.map((e) => e.id).join(", ")}. Use the environment ID.`,
+    };
+  }
+  return { message: `Environment not found: ${identifier}` };
+}
+
+function duplicates(names: string[]): string[] {
+  const seen = new Set<string>();
+  const dupes = new Set<string>();
+  for (const name of names) {
+    const key = name.toLowerCase();
+    if (seen.has(key)) dupes.add(name);
+    seen.add(key);
+  }
+  return Array.from(dupes);
+}
+
+export function registerManageDeployments(server: McpServer): void {
+  server.tool(
+    "record_deployment",
+    "Record a deployable package (and its model versions and ISV solutions) applied to a D365 F&O environment.",
+    {
+      environmentId: z.string().describe("Environment ID (e.g. env-002) or name"),
+      packageName: z.string().describe("Deployable package name (e.g. Contoso-Release-2026.03)"),
+      models: z
+        .array(z.object({ name: z.string(), version: z.string() }))
+        .optional()
+        .describe("Models in the package with their versions (e.g. [{name: 'ContosoCore', version: '1.0.0.16'}])"),
+      isvSolutions: z
+        .array(z.object({ name: z.string(), version: z.string(), vendor: z.string().optional() }))
+        .optional()
+        .describe("ISV solutions included in the package"),
+      outcome: z
+        .enum(["Succeeded", "Failed", "Rolled Back"])
+        .optional()
+        .describe("Deployment outcome. Default: Succeeded"),
+      deployedBy: z.string().optional().describe("Who ran the deployment. Default: the calling user"),
+      deployedAt: z
+        .string()
+        .optional()
+        .describe("When the deployment ran (ISO 8601 date or timestamp with offset, e.g. 2026-03-03T22:00:00Z). Default: now"),
+      notes: z.string().optional().describe("Optional notes (e.g. LCS operation ID, rollback reason)"),
+    },
+    async ({ environmentId, packageName, models, isvSolutions, outcome, deployedBy, deployedAt, notes }, extra) => {
+      const { environment, message } = findEnvironment(environmentId);
+      if (!environment) {
+        return {
+          content: [{ type: "text", text: message }],
+        };
+      }
+
+      const errors: string[] = [];
+      if (environment.status === "Decommissioned") {
+        errors.push(`${environment.name} is decommissioned.`);
+      }
+      if (!packageName.trim()) {
+        errors.push("packageName cannot be empty.");
+      }
+      if (deployedAt !== undefined && !isIsoTimestamp(deployedAt)) {
+        errors.push(`deployedAt "${deployedAt}" is not a valid ISO 8601 timestamp. Use YYYY-MM-DD or YYYY-MM-DDTHH:MM:SSZ.`);
+      }
+      const components = [...(models ?? []), ...(isvSolutions ?? [])];
+      if (components.some((c) => !c.name.trim() || !c.version.trim())) {
+        errors.push("every model and ISV solution needs a name and a version.");
+      }
+      for (const name of duplicates((models ?? []).map((m) => m.name))) {
+        errors.push(`model "${name}" is listed more than once.`);
+      }
+      for (const name of duplicates((isvSolutions ?? []).map((s) => s.name))) {
+        errors.push(`ISV solution "${name}" is listed more than once.`);
+      }
+
+      if (errors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `Deployment not recorded:\n${errors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
+      }
+
+      const changedBy = resolveActor(extra);
+      const deployment: Deployment = {
+        id: store.nextId("dep"),
+        environmentId: environment.id,
+        customerId: environment.customerId,
+        packageName: packageName.trim(),
+        models: (models ?? []).map((m) => ({ name: m.name.trim(), version: m.version.trim() })),
+        isvSolutions: (isvSolutions ?? []).map((s) => ({
+          name: s.name.trim(),
+          version: s.version.trim(),
+          ...(s.vendor && { vendor: s.vendor.trim() }),
+        })),
+        deployedBy: deployedBy?.trim() || changedBy,
+        deployedAt: deployedAt ? new Date(deployedAt).toISOString() : new Date().toISOString(),
+        outcome: outcome ?? "Succeeded",
+        notes,
+      };
+      store.deployments.set(deployment.id, deployment);
+      recordChange({
+        entityType: "deployment",
+        entityId: deployment.id,
+        customerId: deployment.customerId,
+        action: "create",
+        after: deployment,
+        changedBy,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Deployment recorded for **${environment.name}** (${environment.id}).\n\n- ${formatDeployment(deployment)}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "compare_environments",
+    "Compare the deployed packages of two environments (e.g. UAT vs Production) and show model and ISV solution drift.",
+    {
+      source: z.string().describe("Source environment ID or name, usually the one promoted from (e.g. UAT)"),
+      target: z.string().describe("Target environment ID or name (e.g. Production)"),
+    },
+    async ({ source, target }) => {
+      const from = findEnvironment(source);
+      const to = findEnvironment(target);
+      if (!from.environment || !to.environment) {
+        return {
+          content: [{ type: "text", text: [from.message, to.message].filter(Boolean).join("\n") }],
+        };
+      }
+      if (from.environment.customerId !== to.environment.customerId) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${from.environment.name} and ${to.environment.name} belong to different customers; compare environments of the same customer.`,
+            },
+          ],
+        };
+      }
+
+      const a = deployedState(from.environment.id);
+      const b = deployedState(to.environment.id);
+      const drift = compareDeployedStates(a, b);
+
+      const summary = (env: D365Environment, state: typeof a) =>
+        `| ${env.name} (${env.id}) | ${env.type} | v${env.version} | ${state.lastPackage ?? "—"} | ${
+          state.lastDeployedAt?.slice(0, 10) ?? "—"
+        } | ${Object.keys(state.models).length} | ${Object.keys(state.isvSolutions).length} |`;
+
+      const findings: string[] = [];
+      if (from.environment.version !== to.environment.version) {
+        findings.push(
+          `WARNING: Platform versions differ (v${from.environment.version} vs v${to.environment.version}).`
+        );
+      }
+      if (!a.lastPackage || !b.lastPackage) {
+        findings.push(
+          `INFO: No successful deployments recorded for ${[!a.lastPackage && from.environment.name, !b.lastPackage && to.environment.name]
+            .filter(Boolean)
+            .join(" and ")}.`
+        );
+      }
+      const targetAhead = drift.filter((d) => d.difference === "Newer in target" || d.difference === "Only in target");
+      if (targetAhead.length > 0) {
+        findings.push(
+          `WARNING: ${to.environment.name} has ${targetAhead.length} component(s) newer than or missing from ${from.environment.name}: ${targetAhead
+            .map((d) => d.name)
+            .join(", ")}.`
+        );
+      }
+
+      const driftTable =
+        drift.length > 0
+          ? `| Component | Name | ${from.environment.name} | ${to.environment.name} | Difference |\n|-----------|------|------|------|------------|\n${drift
+              .map((d) => `| ${d.kind} | ${d.name} | ${d.source ?? "—"} | ${d.target ?? "—"} | ${d.difference} |`)
+              .join("\n")}`
+          : "No package drift: both environments run the same models and ISV solution versions.";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## Environment Comparison — ${from.environment.name} → ${to.environment.name}\n\n| Environment | Type | Version | Last Package | Deployed | Models | ISV Solutions |\n|-------------|------|---------|--------------|----------|--------|---------------|\n${summary(from.environment, a)}\n${summary(to.environment, b)}\n\n### Drift\n${driftTable}${
+              findings.length > 0 ? `\n\n### Findings\n${findings.map((f) => `- ${f}`).join("\n")}` : ""
+            }`,
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,100 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import {
+  DEFAULT_PROBE_PATHS,
+  DEFAULT_PROBE_TIMEOUT_MS,
+  MAX_PROBE_PATHS,
+  detectedVersion,
+  probeEnvironment,
+  probeFindings,
+  validateProbePaths,
+} from "../../data/environmentProbe.js";
+import { resolveActor } from "../../utils/identity.js";
+
+export function registerProbeEnvironment(server: McpServer): void {
+  server.tool(
+    "probe_environment",
+    "Check that a D365 F&O environment URL responds. Reports reachability, latency, TLS certificate expiry and version headers for the base URL and its health/metadata endpoints, and stores the result on the environment.",
+    {
+      environmentId: z.string().describe("Environment ID (e.g. env-002)"),
+      paths: z
+        .array(z.string())
+        .optional()
+        .describe(
+          `Endpoint paths on the environment's host to check after the base URL, each starting with "/" (max ${MAX_PROBE_PATHS}). Default: ${DEFAULT_PROBE_PATHS.join(", ")}`
+        ),
+      timeoutMs: z
+        .number()
+        .int()
+        .min(100)
+        .max(60_000)
+        .optional()
+        .describe(`Per-request timeout in milliseconds. Default: ${DEFAULT_PROBE_TIMEOUT_MS}`),
+    },
+    async ({ environmentId, paths, timeoutMs }, extra) => {
+      const environment = store.environments.get(environmentId);
+      if (!environment) {
+        return {
+          content: [{ type: "text", text: `Environment not found: ${environmentId}` }],
+        };
+      }
+      if (!environment.url) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No URL recorded for **${environment.name}**. Set it with update_environment before probing.`,
+            },
+          ],
+        };
+      }
+      if (!/^https?:\/\//i.test(environment.url) || !URL.canParse(environment.url)) {
+        return {
+          content: [{ type: "text", text: `Environment URL "${environment.url}" is not a valid http(s) URL.` }],
+        };
+      }
+
+      const pathErrors = paths ? validateProbePaths(paths) : [];
+      if (pathErrors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `Environment not probed:\n${pathErrors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
+      }
+
+      const probe = await probeEnvironment(environment, resolveActor(extra), { paths, timeoutMs });
+      environment.lastProbe = probe;
+      store.environments.set(environment.id, environment);
+
+      const endpoints = probe.endpoints
+        .map(
+          (e) =>
+            `| ${e.path} | ${e.status ?? "—"} | ${e.latencyMs !== undefined ? `${e.latencyMs} ms` : "—"} | ${e.error ?? ""} |`
+        )
+        .join("\n");
+      const tls = probe.tls
+        ? `${probe.tls.validTo.slice(0, 10)} (${probe.tls.daysToExpiry} days)${probe.tls.authorized ? "" : " — untrusted"}${
+            probe.tls.issuer ? `, issued by ${probe.tls.issuer}` : ""
+          }`
+        : "N/A";
+      const headers = Object.entries(probe.versionHeaders);
+      const version = detectedVersion(probe);
+      const findings = probeFindings(environment, probe);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## Probe — ${environment.name} (${environment.id})\n\n**URL:** ${probe.url}\n**Reachable:** ${probe.reachable ? "Yes" : "No"}\n**Latency:** ${
+              probe.latencyMs !== undefined ? `${probe.latencyMs} ms` : "—"
+            }\n**TLS Certificate:** ${tls}\n**Detected Version:** ${version ? `v${version}` : "Not reported"} (recorded v${environment.version})\n**Probed:** ${probe.probedAt}\n\n### Endpoints\n| Path | Status | Latency | Error |\n|------|--------|---------|-------|\n${endpoints}\n\n### Version Headers\n${
+              headers.length > 0 ? headers.map(([name, value]) => `- ${name}: ${value}`).join("\n") : "- None"
+            }${findings.length > 0 ? `\n\n### Findings\n${findings.map((f) => `- ${f}`).join("\n")}` : ""}`,
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,218 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { diffFields, recordChange } from "../../data/changeLog.js";
+import {
+  canTransitionEnvironment,
+  compareVersions,
+  isValidVersion,
+  recordEnvironmentEvent,
+} from "../../data/environmentEvents.js";
+import { ENVIRONMENT_PURPOSES, ENVIRONMENT_TIERS } from "../../data/topology.js";
+import { resolveActor } from "../../utils/identity.js";
+
+export function registerUpdateEnvironment(server: McpServer): void {
+  server.tool(
+    "update_environment",
+    "Update a D365 F&O environment. Only the fields provided are changed. Version changes are recorded as upgrade/downgrade events; setting status to Active completes provisioning. Use decommission_environment to retire an environment.",
+    {
+      environmentId: z.string().describe("Environment ID (e.g. env-002)"),
+      name: z.string().optional().describe("Environment name"),
+      type: z
+        .enum(["Sandbox", "UAT", "Production", "DevTest", "Build"])
+        .optional()
+        .describe("Environment type"),
+      region: z.string().optional().describe("Azure region (e.g. East US, West Europe)"),
+      version: z.string().optional().describe("New D365 F&O version (e.g. 10.0.41)"),
+      lcsProjectId: z.string().optional().describe("LCS Project ID, or empty to clear"),
+      url: z.string().optional().describe("Environment URL, or empty to clear"),
+      tier: z.enum(ENVIRONMENT_TIERS).optional().describe("Sandbox tier (e.g. after a tier upgrade in LCS)"),
+      size: z.enum(["Small", "Medium", "Large", "Extra Large"]).optional().describe("Environment size"),
+      purpose: z.enum(ENVIRONMENT_PURPOSES).optional().describe("What the environment is used for"),
+      status: z
+        .enum(["Active", "Provisioning"])
+        .optional()
+        .describe("New status. Provisioning → Active marks provisioning as complete"),
+      notes: z.string().optional().describe("Optional notes recorded with the change (e.g. service update name)"),
+    },
+    async (
+      { environmentId, name, type, region, version, lcsProjectId, url, tier, size, purpose, status, notes },
+      extra
+    ) => {
+      const environment = store.environments.get(environmentId);
+      if (!environment) {
+        return {
+          content: [{ type: "text", text: `Environment not found: ${environmentId}` }],
+        };
+      }
+
+      if (environment.status === "Decommissioned") {
+        return {
+          content: [
+            { type: "text", text: `Environment **${environment.name}** is decommissioned and can no longer be changed.` },
+          ],
+        };
+      }
+
+      const errors: string[] = [];
+      if (version !== undefined && !isValidVersion(version)) {
+        errors.push(`version "${version}" is not a dotted version such as 10.0.40.`);
+      }
+      if (status && status !== environment.status && !canTransitionEnvironment(environment.status, status)) {
+        errors.push(`status cannot move from ${environment.status} to ${status}.`);
+      }
+      if (name !== undefined && !name.trim()) {
+        errors.push("name cannot be empty.");
+      }
+      if (region !== undefined && !region.trim()) {
+        errors.push("region cannot be empty.");
+      }
+      if (tier && (type ?? environment.type) === "Production") {
+        errors.push("tier applies to sandboxes only, not Production environments.");
+      }
+
+      if (errors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `Environment not updated:\n${errors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
+      }
+
+      const before = { ...environment };
+      const now = new Date().toISOString();
+
+      if (name !== undefined) environment.name = name.trim();
+      if (type !== undefined) environment.type = type;
+      if (region !== undefined) environment.region = region.trim();
+      if (version !== undefined) environment.version = version;
+      if (lcsProjectId !== undefined) environment.lcsProjectId = lcsProjectId || undefined;
+      if (url !== undefined) environment.url = url || undefined;
+      if (tier !== undefined) environment.tier = tier;
+      if (size !== undefined) environment.size = size;
+      if (purpose !== undefined) environment.purpose = purpose;
+      if (environment.type === "Production") environment.tier = undefined;
+      if (status !== undefined && status !== environment.status) {
+        environment.status = status;
+        if (status === "Active") environment.provisionedAt = now;
+      }
+
+      const changes = diffFields(before, environment);
+      if (changes.length === 0) {
+        return {
+          content: [{ type: "text", text: `No changes to apply for **${environment.name}**.` }],
+        };
+      }
+
+      const changedBy = resolveActor(extra);
+      store.environments.set(environment.id, environment);
+      recordChange({
+        entityType: "environment",
+        entityId: environment.id,
+        customerId: environment.customerId,
+        action: "update",
+        before,
+        after: environment,
+        changedBy,
+        reason: notes,
+      });
+
+      const events: string[] = [];
+      if (before.version !== environment.version) {
+        const upgrade = compareVersions(environment.version, before.version) > 0;
+        recordEnvironmentEvent(environment, upgrade ? "version-upgrade" : "version-downgrade", changedBy, {
+          fromVersion: before.version,
+          toVersion: environment.version,
+          notes,
+        });
+        events.push(
+          `${upgrade ? "Version upgrade" : "WARNING: Version downgrade"} recorded: v${before.version} → v${environment.version}`
+        );
+      }
+      if (before.status === "Provisioning" && environment.status === "Active") {
+        recordEnvironmentEvent(environment, "provisioned", changedBy, { notes });
+        events.push(
+          `Provisioning completed${before.provisioningStartedAt ? ` (started ${before.provisioningStartedAt})` : ""}`
+        );
+      }
+
+      const diff = changes
+        .map((c) => `| ${c.field} | ${c.before ?? "—"} | ${c.after ?? "—"} |`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Environment **${environment.name}** (${environment.id}) updated.\n\n| Field | Before | After |\n|-------|--------|-------|\n${diff}${events.length > 0 ? `\n\n${events.map((e) => `- ${e}`).join("\n")}` : ""}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "decommission_environment",
+    "Decommission a D365 F&O environment. The record is kept (with a decommission timestamp) for history; decommissioned environments no longer count toward readiness checks.",
+    {
+      environmentId: z.string().describe("Environment ID (e.g. env-002)"),
+      reason: z.string().optional().describe("Optional reason for decommissioning"),
+    },
+    async ({ environmentId, reason }, extra) => {
+      const environment = store.environments.get(environmentId);
+      if (!environment) {
+        return {
+          content: [{ type: "text", text: `Environment not found: ${environmentId}` }],
+        };
+      }
+
+      if (environment.status === "Decommissioned") {
+        return {
+          content: [
+            { type: "text", text: `Environment **${environment.name}** is already decommissioned (${environment.decommissionedAt ?? "date unknown"}).` },
+          ],
+        };
+      }
+
+      const before = { ...environment };
+      const changedBy = resolveActor(extra);
+      environment.status = "Decommissioned";
+      environment.decommissionedAt = new Date().toISOString();
+
+      store.environments.set(environment.id, environment);
+      recordChange({
+        entityType: "environment",
+        entityId: environment.id,
+        customerId: environment.customerId,
+        action: "update",
+        before,
+        after: environment,
+        changedBy,
+        reason,
+      });
+      recordEnvironmentEvent(environment, "decommissioned", changedBy, { notes: reason });
+
+      // Losing the last production environment of a live customer is worth calling out
+      const customer = store.customers.get(environment.customerId);
+      const remainingProd = store.environments.filter(
+        (e) => e.customerId === environment.customerId && e.type === "Production" && e.status !== "Decommissioned"
+      );
+      const warning =
+        environment.type === "Production" &&
+        remainingProd.length === 0 &&
+        customer &&
+        ["Go-Live", "Post-Go-Live"].includes(customer.status)
+          ? `\n\nWARNING: ${customer.name} is in ${customer.status} and now has no active Production environment.`
+          : "";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Environment **${environment.name}** (${environment.id}) decommissioned.${reason ? `\nReason: ${reason}` : ""}${warning}`,
+          },
+        ],
+      };
+    }
+  );
+}
@@ -1,97 +1,76 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { assessEnvironmentReadiness } from "../../data/environmentReadiness.js";
+import { findRulePack, getRulePacks } from "../../data/rules/rulePacks.js";
 
 export function registerValidateEnvironment(server: McpServer): void {
   server.tool(
     "validate_environment_readiness",
-    "Validate a customer's environment setup against FastTrack best practices. Checks for common issues like missing UAT, version mismatches, and production readiness.",
+    "Validate a customer's environment setup against a FastTrack readiness rule pack. Checks for common issues like missing UAT, version mismatches, and production readiness, and explains each score deduction.",
     {
-      customerId: z.string().describe("Customer ID (e.g. cust-001)"),
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      rulePack: z
+        .string()
+        .optional()
+        .describe("Rule pack ID to evaluate. Default: the pack for the customer's engagement type"),
     },
-    async ({ customerId }) => {
-      const customer = store.customers.get(customerId);
-      if (!customer) {
+    async ({ customerId, rulePack }) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
         return {
-          content: [{ type: "text", text: `Customer not found: ${customerId}` }],
+          content: [{ type: "text", text: lookup.message }],
         };
       }
+      const customer = lookup.customer;
 
-      const environments = Array.from(store.environments.values()).filter(
-        (e) => e.customerId === customerId
-      );
-
-      const findings: string[] = [];
-      let score = 100;
-
-      // Check: Has production environment
-      const hasProd = environments.some((e) => e.type === "Production");
-      if (!hasProd) {
-        findings.push("CRITICAL: No Production environment configured.");
-        score -= 30;
-      }
-
-      // Check: Has UAT environment
-      const hasUAT = environments.some((e) => e.type === "UAT");
-      if (!hasUAT) {
-        findings.push("HIGH: No UAT environment configured. UAT is required before go-live.");
-        score -= 20;
-      }
-
-      // Check: Has at least one Sandbox
-      const hasSandbox = environments.some((e) => e.type === "Sandbox");
-      if (!hasSandbox) {
-        findings.push("MEDIUM: No Sandbox environment configured for development/testing.");
-        score -= 10;
-      }
-
-      // Check: Version consistency
-      const versions = new Set(environments.map((e) => e.version));
-      if (versions.size > 1) {
-        findings.push(
-          `WARNING: Version mismatch across environments: ${Array.from(versions).join(", ")}. Ensure all environments are on the same version before go-live.`
-        );
-        score -= 15;
+      const pack = rulePack ? findRulePack(rulePack) : undefined;
+      if (rulePack && !pack) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Rule pack not found: ${rulePack}. Available: ${getRulePacks().map((p) => p.id).join(", ")}`,
+            },
+          ],
+        };
       }
 
-      // Check: Production version is latest
-      if (hasProd && hasUAT) {
-        const prodEnv = environments.find((e) => e.type === "Production");
-        const uatEnv = environments.find((e) => e.type === "UAT");
-        if (prodEnv && uatEnv && prodEnv.version !== uatEnv.version) {
-          findings.push(
-            `WARNING: Production (v${prodEnv.version}) and UAT (v${uatEnv.version}) are on different versions.`
-          );
-          score -= 10;
-        }
-      }
+      const readiness = assessEnvironmentReadiness(customer, pack);
+      const { score, label, environmentCount, findings, results, skippedRules } = readiness;
 
-      // Check: Decommissioned environments
-      const decommissioned = environments.filter((e) => e.status === "Decommissioned");
-      if (decommissioned.length > 0) {
-        findings.push(
-          `INFO: ${decommissioned.length} decommissioned environment(s) found. Consider cleaning up LCS resources.`
-        );
-      }
+      const deductions = results.filter((r) => r.weight > 0);
+      const breakdown =
+        deductions.length > 0
+          ? `| Rule | Severity | Deduction |\n|------|----------|-----------|\n${deductions
+              .map((r) => `| ${r.ruleId} | ${r.severity} | -${r.weight} |`)
+              .join("\n")}\n\n100 - ${deductions.map((r) => r.weight).join(" - ")} = ${score}${
+              score === 0 ? " (floored at 0)" : ""
+            }`
+          : "No deductions.";
 
-      if (findings.length === 0) {
-        findings.push("All environment checks passed.");
-      }
+      const topology =
+        readiness.topology.length > 0
+          ? `| Requirement | Min Tier | Required | Covered By | Status |\n|-------------|----------|----------|------------|--------|\n${readiness.topology
+              .map(
+                (c) =>
+                  `| ${c.requirement.description} | ${c.requirement.minTier} | ${c.requirement.count} | ${
+                    c.matched.join(", ") || "—"
+                  } | ${c.satisfied ? "OK" : `MISSING${c.underTier.length > 0 ? ` (below tier: ${c.underTier.join(", ")})` : ""}`} |`
+              )
+              .join("\n")}`
+          : "No topology requirements for this phase.";
 
-      const scoreLabel =
-        score >= 90
-          ? "Excellent"
-          : score >= 70
-            ? "Good"
-            : score >= 50
-              ? "Needs Attention"
-              : "Critical Issues";
+      const skipped =
+        skippedRules.length > 0
+          ? `\n\n_Not applicable in the ${readiness.phase} phase: ${skippedRules.join(", ")}_`
+          : "";
 
       return {
         content: [
           {
             type: "text",
-            text: `## Environment Readiness Report — ${customer.name}\n\n**Score:** ${Math.max(0, score)}/100 (${scoreLabel})\n**Environments:** ${environments.length}\n\n### Findings\n${findings.map((f) => `- ${f}`).join("\n")}`,
+            text: `## Environment Readiness Report — ${customer.name}\n\n**Score:** ${score}/100 (${label})\n**Environments:** ${environmentCount}\n**Rule Pack:** ${readiness.rulePack.name} (${readiness.rulePack.id} v${readiness.rulePack.version})\n**Phase:** ${readiness.phase}\n\n### Findings\n${findings.map((f) => `- ${f}`).join("\n")}\n\n### Required Topology (${readiness.phase})\n${topology}\n\n### Score Breakdown\n${breakdown}${skipped}`,
           },
         ],
       };
@@ -0,0 +1,127 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { saveChecklist } from "../../data/checklists.js";
+import { recordChange } from "../../data/changeLog.js";
+import {
+  findChecklistTemplate,
+  latestChecklistTemplates,
+  planChecklistTemplate,
+  selectChecklistTemplate,
+} from "../../data/templates/checklistTemplates.js";
+import { resolveActor } from "../../utils/identity.js";
+import { todayIso } from "../../utils/dates.js";
+import type { ChecklistItem } from "../../types/index.js";
+
+export function registerApplyChecklistTemplate(server: McpServer): void {
+  server.tool(
+    "apply_checklist_template",
+    "Generate implementation checklist items for a customer from a versioned template, filtered by the customer's D365 modules. Due dates are back-scheduled from the go-live date and items already on the checklist are skipped. See fasttrack://checklist-templates for available templates.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      templateId: z
+        .string()
+        .optional()
+        .describe("Template ID (e.g. fasttrack-finance-scm). Default: best match for the engagement type and modules"),
+      version: z.string().optional().describe("Template version. Default: latest"),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe("Preview the items without adding them. Default: false"),
+    },
+    async ({ customerId, templateId, version, dryRun }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const template = templateId ? findChecklistTemplate(templateId, version) : selectChecklistTemplate(customer);
+      if (!template) {
+        const available = latestChecklistTemplates()
+          .map((t) => `${t.id} (v${t.version})`)
+          .join(", ");
+        return {
+          content: [
+            {
+              type: "text",
+              text: templateId
+                ? `Checklist template not found: ${templateId}${version ? ` v${version}` : ""}. Available: ${available}`
+                : `No checklist template applies to ${customer.name} (${customer.engagementType}, ${customer.d365Modules.join(", ")}). Available: ${available}`,
+            },
+          ],
+        };
+      }
+
+      const checklist = store.checklists.get(customer.id) || [];
+      const plan = planChecklistTemplate(template, customer, checklist);
+
+      const created: ChecklistItem[] = plan.items.map((item) => ({
+        id: dryRun ? "(new)" : store.nextId("chk"),
+        ...item,
+      }));
+
+      if (!dryRun && created.length > 0) {
+        const changedBy = resolveActor(extra);
+        saveChecklist(customer.id, [...checklist, ...created]);
+        for (const item of created) {
+          recordChange({
+            entityType: "checklistItem",
+            entityId: item.id,
+            customerId: customer.id,
+            action: "create",
+            after: item,
+            changedBy,
+            reason: `Applied checklist template ${template.id} v${template.version}`,
+          });
+        }
+      }
+
+      const notes: string[] = [];
+      if (!customer.goLiveDate) {
+        notes.push("WARNING: No go-live date set, so no due dates were scheduled. Set one with update_customer.");
+      }
+      const today = todayIso();
+      const pastDue = created.filter((i) => i.dueDate && i.dueDate < today);
+      if (pastDue.length > 0) {
+        notes.push(`WARNING: ${pastDue.length} item(s) are already past their back-scheduled due date.`);
+      }
+      if (plan.notApplicable.length > 0) {
+        notes.push(
+          `INFO: ${plan.notApplicable.length} template item(s) not generated because the modules are not in scope: ${plan.notApplicable
+            .map((i) => i.title)
+            .join(", ")}.`
+        );
+      }
+
+      const table =
+        created.length > 0
+          ? `| ID | Phase | Title | Owner | Due |\n|----|-------|-------|-------|-----|\n${created
+              .map((i) => `| ${i.id} | ${i.phase} | ${i.title} | ${i.owner ?? "—"} | ${i.dueDate ?? "—"} |`)
+              .join("\n")}`
+          : "No new items — the checklist already covers this template.";
+      const skipped =
+        plan.skipped.length > 0
+          ? `\n\n### Already on the Checklist (${plan.skipped.length})\n${plan.skipped
+              .map((s) => `- ${s.item.title} (${s.existingId})`)
+              .join("\n")}`
+          : "";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## ${dryRun ? "Preview: " : ""}${template.name} (v${template.version}) → ${customer.name}\n\n**Go-Live:** ${
+              customer.goLiveDate ?? "TBD"
+            }\n**${dryRun ? "Would add" : "Added"}:** ${created.length} | **Skipped:** ${plan.skipped.length}\n\n${table}${skipped}${
+              notes.length > 0 ? `\n\n${notes.map((n) => `- ${n}`).join("\n")}` : ""
+            }`,
+          },
+        ],
+      };
+    }
+  );
+}
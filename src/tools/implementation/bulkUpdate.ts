@@ -0,0 +1,248 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { saveChecklist } from "../../data/checklists.js";
+import { diffFields, recordChange } from "../../data/changeLog.js";
+import { propagateBlocked, recordPropagation } from "../../data/checklistDependencies.js";
+import { resolveActor } from "../../utils/identity.js";
+import { isIsoDate } from "../../utils/validation.js";
+import type { ChecklistItem, ChecklistStatus } from "../../types/index.js";
+
+const STATUSES = ["Not Started", "In Progress", "Completed", "Blocked", "N/A"] as const;
+
+const patchFields = {
+  status: z.enum(STATUSES).optional().describe("New status"),
+  owner: z.string().optional().describe("New owner (contact name, email, or role); empty string to clear"),
+  dueDate: z.string().optional().describe("New due date (YYYY-MM-DD); empty string to clear"),
+  notes: z.string().optional().describe("New notes (replaces the current notes)"),
+};
+
+interface Patch {
+  status?: ChecklistStatus;
+  owner?: string;
+  dueDate?: string;
+  notes?: string;
+}
+
+function formatField(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+function applyPatch(item: ChecklistItem, patch: Patch): void {
+  if (patch.status !== undefined) {
+    item.status = patch.status;
+    // An explicit status replaces any block inherited from upstream
+    delete item.blockedBy;
+    delete item.statusBeforeBlock;
+  }
+  if (patch.owner !== undefined) {
+    if (patch.owner.trim()) item.owner = patch.owner.trim();
+    else delete item.owner;
+  }
+  if (patch.dueDate !== undefined) {
+    if (patch.dueDate.trim()) item.dueDate = patch.dueDate.trim();
+    else delete item.dueDate;
+  }
+  if (patch.notes) {
+    item.notes = patch.notes;
+  }
+}
+
+export function registerBulkUpdate(server: McpServer): void {
+  server.tool(
+    "bulk_update_checklist",
+    "Update many checklist items for a customer in one call. Provide per-item patches (updates), a filter with the fields to set on every matching item (e.g. all Initiate items to Completed), or both; per-item patches win where they overlap. Changes are applied all-or-nothing. Use dryRun to preview.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      updates: z
+        .array(z.object({ itemId: z.string().describe("Checklist item ID (e.g. chk-001)"), ...patchFields }))
+        .optional()
+        .describe("Per-item patches"),
+      filter: z
+        .object({
+          phase: z.enum(["Initiate", "Implement", "Prepare", "Operate"]).optional(),
+          // Blank criteria would otherwise pass validation yet match every item
+          category: z.string().trim().min(1).optional().describe("Category, case-insensitive"),
+          status: z.enum(STATUSES).optional().describe("Current status"),
+          owner: z.string().trim().min(1).optional().describe("Current owner, case-insensitive"),
+        })
+        .optional()
+        .describe("Select items to update with 'set'. At least one criterion is required"),
+      set: z.object(patchFields).optional().describe("Fields to set on every item matched by 'filter'"),
+      dryRun: z.boolean().optional().describe("Show the changes without applying them. Default: false"),
+      reason: z.string().optional().describe("Optional reason recorded in the change history"),
+    },
+    async ({ customerId, updates, filter, set, dryRun, reason }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const checklist = store.checklists.get(customer.id);
+      if (!checklist) {
+        return {
+          content: [
+            { type: "text", text: `No checklist found for customer: ${customer.id}` },
+          ],
+        };
+      }
+
+      const errors: string[] = [];
+      if (!updates?.length && !filter) {
+        errors.push("Provide updates, or a filter with set.");
+      }
+      if (filter && !set) errors.push("A filter needs 'set' with the fields to change.");
+      if (set && !filter) errors.push("'set' needs a filter selecting the items to change.");
+      if (filter && Object.values(filter).every((v) => v === undefined)) {
+        errors.push("The filter needs at least one criterion (phase, category, status, or owner).");
+      }
+
+      // Collect the patch for each item: filter matches first, then explicit patches
+      const patches = new Map<string, Patch>();
+      if (filter && set && errors.length === 0) {
+        const matches = checklist.filter(
+          (i) =>
+            (!filter.phase || i.phase === filter.phase) &&
+            (!filter.category || i.category.toLowerCase() === filter.category.toLowerCase()) &&
+            (!filter.status || i.status === filter.status) &&
+            (!filter.owner || i.owner?.toLowerCase() === filter.owner.toLowerCase())
+        );
+        for (const item of matches) patches.set(item.id, { ...set });
+      }
+      const seen = new Set<string>();
+      for (const { itemId, ...patch } of updates ?? []) {
+        if (seen.has(itemId)) {
+          errors.push(`${itemId}: listed more than once.`);
+          continue;
+        }
+        seen.add(itemId);
+        if (!checklist.some((i) => i.id === itemId)) {
+          errors.push(`${itemId}: checklist item not found.`);
+          continue;
+        }
+        const merged = { ...patches.get(itemId) };
+        for (const [field, value] of Object.entries(patch)) {
+          if (value !== undefined) (merged as Record<string, unknown>)[field] = value;
+        }
+        patches.set(itemId, merged);
+      }
+
+      for (const [itemId, patch] of patches) {
+        if (Object.values(patch).every((v) => v === undefined)) {
+          errors.push(`${itemId}: nothing to update. Provide status, owner, dueDate, or notes.`);
+        }
+        if (patch.dueDate && !isIsoDate(patch.dueDate.trim())) {
+          errors.push(`${itemId}: invalid dueDate "${patch.dueDate}". Use YYYY-MM-DD.`);
+        }
+      }
+
+      if (errors.length === 0 && patches.size === 0) {
+        return {
+          content: [{ type: "text", text: `No checklist items for ${customer.name} match the filter.` }],
+        };
+      }
+
+      // Apply to a working copy so a failure leaves the stored checklist untouched
+      const working = structuredClone(checklist);
+      const byId = new Map(working.map((i) => [i.id, i]));
+      const before = new Map(checklist.map((i) => [i.id, i]));
+      if (errors.length === 0) {
+        for (const [itemId, patch] of patches) applyPatch(byId.get(itemId)!, patch);
+
+        // Checked after every patch so upstream items unblocked in the same batch count
+        for (const [itemId, patch] of patches) {
+          if (patch.status !== "Not Started" && patch.status !== "In Progress") continue;
+          const blockers = (byId.get(itemId)!.dependsOn ?? []).filter((d) => byId.get(d)?.status === "Blocked");
+          if (blockers.length > 0) {
+            errors.push(`${itemId}: depends on blocked item(s) ${blockers.join(", ")}; unblock them first.`);
+          }
+        }
+      }
+
+      if (errors.length > 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Checklist not updated; no changes were applied:\n${errors.map((e) => `- ${e}`).join("\n")}`,
+            },
+          ],
+        };
+      }
+
+      const propagated = propagateBlocked(working).filter((c) => !patches.has(c.after.id));
+
+      const rows: string[] = [];
+      const changed: ChecklistItem[] = [];
+      for (const itemId of patches.keys()) {
+        const item = byId.get(itemId)!;
+        const changes = diffFields(before.get(itemId), item).filter(
+          (c) => c.field !== "blockedBy" && c.field !== "statusBeforeBlock"
+        );
+        if (changes.length > 0) changed.push(item);
+        rows.push(
+          `| ${item.id} | ${item.title} | ${
+            changes.length > 0
+              ? changes.map((c) => `${c.field}: ${formatField(c.before)} → ${formatField(c.after)}`).join("; ")
+              : "No change"
+          } |`
+        );
+      }
+      const table = `| ID | Title | Changes |\n|----|-------|---------|\n${rows.join("\n")}`;
+      const summary = `**Matched:** ${patches.size} | **Changed:** ${changed.length}`;
+
+      if (dryRun) {
+        const dependents =
+          propagated.length > 0
+            ? `\n\n**Dependents that would change:**\n${propagated
+                .map(({ before: prev, after }) => `- ${after.title} (${after.id}): ${prev.status} → ${after.status}`)
+                .join("\n")}`
+            : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `## Bulk Update Preview — ${customer.name}\n\n${summary}\n\n${table}${dependents}\n\nDry run — nothing was changed.`,
+            },
+          ],
+        };
+      }
+
+      if (changed.length === 0 && propagated.length === 0) {
+        return {
+          content: [{ type: "text", text: `No changes to apply for ${customer.name}.\n\n${table}` }],
+        };
+      }
+
+      saveChecklist(customer.id, working);
+      const changedBy = resolveActor(extra);
+      for (const item of changed) {
+        recordChange({
+          entityType: "checklistItem",
+          entityId: item.id,
+          customerId: customer.id,
+          action: "update",
+          before: before.get(item.id),
+          after: item,
+          changedBy,
+          reason,
+        });
+      }
+      const dependents = recordPropagation(customer.id, propagated, changedBy);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## Bulk Update — ${customer.name}\n\n${summary}\n\n${table}${dependents}`,
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,239 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { saveChecklist } from "../../data/checklists.js";
+import { recordChange } from "../../data/changeLog.js";
+import {
+  describeExtraction,
+  formatComment,
+  formatEvidence,
+  parseExtractionEvidence,
+} from "../../data/checklistActivity.js";
+import { daysOverdue } from "../../data/scheduleRisk.js";
+import { resolveActor } from "../../utils/identity.js";
+import type { ChecklistComment, ChecklistEvidence, ExtractionResult } from "../../types/index.js";
+
+export function registerChecklistActivity(server: McpServer): void {
+  server.tool(
+    "get_checklist_item",
+    "Get a single checklist item with its full comment thread and evidence attachments.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      itemId: z.string().describe("Checklist item ID (e.g. chk-001)"),
+    },
+    async ({ customerId, itemId }) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const item = (store.checklists.get(customer.id) || []).find((i) => i.id === itemId);
+      if (!item) {
+        return {
+          content: [{ type: "text", text: `Checklist item not found: ${itemId}` }],
+        };
+      }
+
+      const overdue = daysOverdue(item);
+      const rows = [
+        `| Phase | ${item.phase} |`,
+        `| Category | ${item.category} |`,
+        `| Status | ${item.status}${item.blockedBy ? ` (blocked by ${item.blockedBy.join(", ")})` : ""} |`,
+        `| Owner | ${item.owner ?? "—"} |`,
+        `| Due | ${item.dueDate ?? "—"}${overdue > 0 ? ` (OVERDUE by ${overdue} day${overdue === 1 ? "" : "s"})` : ""} |`,
+        `| Depends On | ${item.dependsOn?.join(", ") || "—"} |`,
+        `| Notes | ${item.notes ?? "—"} |`,
+      ];
+
+      const comments = item.comments?.length
+        ? item.comments.map((c) => `- ${formatComment(c)}`).join("\n")
+        : "No comments.";
+      const evidence = item.evidence?.length
+        ? item.evidence.map((e) => `- ${formatEvidence(e)}`).join("\n")
+        : item.status === "Completed"
+          ? "WARNING: Completed without evidence. Use attach_checklist_evidence to record proof."
+          : "No evidence attached.";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## ${item.title} (${item.id}) — ${customer.name}\n\n${item.description}\n\n| Field | Value |\n|-------|-------|\n${rows.join("\n")}\n\n### Comments (${item.comments?.length ?? 0})\n${comments}\n\n### Evidence (${item.evidence?.length ?? 0})\n${evidence}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "add_checklist_comment",
+    "Add a comment to a checklist item's thread. Comments are append-only and record the author and time.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      itemId: z.string().describe("Checklist item ID (e.g. chk-001)"),
+      text: z.string().describe("Comment text"),
+      onBehalfOf: z
+        .string()
+        .optional()
+        .describe("Person the comment is relayed for (e.g. a customer stakeholder); the caller is still recorded as the author"),
+    },
+    async ({ customerId, itemId, text, onBehalfOf }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const checklist = store.checklists.get(customer.id) || [];
+      const item = checklist.find((i) => i.id === itemId);
+      if (!item) {
+        return {
+          content: [{ type: "text", text: `Checklist item not found: ${itemId}` }],
+        };
+      }
+      if (!text.trim()) {
+        return {
+          content: [{ type: "text", text: "Comment text cannot be empty." }],
+        };
+      }
+
+      const changedBy = resolveActor(extra);
+      const comment: ChecklistComment = {
+        id: store.nextId("cmt"),
+        author: changedBy,
+        ...(onBehalfOf?.trim() && { onBehalfOf: onBehalfOf.trim() }),
+        text: text.trim(),
+        createdAt: new Date().toISOString(),
+      };
+      item.comments = [...(item.comments ?? []), comment];
+      saveChecklist(customer.id, checklist);
+      recordChange({
+        entityType: "checklistItem",
+        entityId: item.id,
+        customerId: customer.id,
+        action: "update",
+        before: {},
+        after: { comment: comment.text, ...(comment.onBehalfOf && { onBehalfOf: comment.onBehalfOf }) },
+        changedBy,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Comment ${comment.id} added to **${item.title}** (${item.id}).\n\n${formatComment(comment)}\n\nThread now has ${item.comments.length} comment(s).`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "attach_checklist_evidence",
+    'Attach evidence to a checklist item: a file path, a URL, or a saved extraction (the JSON output of extract_pdf or extract_email with outputFormat "json").',
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      itemId: z.string().describe("Checklist item ID (e.g. chk-001)"),
+      kind: z.enum(["file", "url", "extraction"]).describe("What the evidence references"),
+      reference: z
+        .string()
+        .optional()
+        .describe("File path (recorded as given, not checked) or URL. Required for file and url"),
+      extraction: z
+        .string()
+        .optional()
+        .describe('JSON output of extract_pdf or extract_email. Required for extraction'),
+      title: z.string().optional().describe("Short label (e.g. 'Signed UAT sign-off')"),
+    },
+    async ({ customerId, itemId, kind, reference, extraction, title }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const checklist = store.checklists.get(customer.id) || [];
+      const item = checklist.find((i) => i.id === itemId);
+      if (!item) {
+        return {
+          content: [{ type: "text", text: `Checklist item not found: ${itemId}` }],
+        };
+      }
+
+      const errors: string[] = [];
+      let ref = reference?.trim() ?? "";
+      let saved: ExtractionResult | undefined;
+
+      if (kind === "extraction") {
+        if (!extraction) {
+          errors.push("Provide the extraction output for kind extraction.");
+        } else {
+          const parsed = parseExtractionEvidence(extraction);
+          if (parsed.error) errors.push(parsed.error);
+          saved = parsed.result;
+          if (saved) ref = ref || describeExtraction(saved);
+        }
+      } else if (!ref) {
+        errors.push(`Provide a reference for kind ${kind}.`);
+      } else if (kind === "url") {
+        let url: URL | undefined;
+        try {
+          url = new URL(ref);
+        } catch {
+          // reported below
+        }
+        if (!url || !["http:", "https:"].includes(url.protocol)) {
+          errors.push(`Invalid URL "${ref}". Use an http or https URL.`);
+        }
+      }
+      // File references are recorded as given; checking them would reveal the server's filesystem to callers
+
+      if (errors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `Evidence not attached:\n${errors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
+      }
+
+      const changedBy = resolveActor(extra);
+      const evidence: ChecklistEvidence = {
+        id: store.nextId("evd"),
+        kind,
+        reference: ref,
+        ...(title?.trim() && { title: title.trim() }),
+        addedBy: changedBy,
+        addedAt: new Date().toISOString(),
+        ...(saved && { extraction: saved }),
+      };
+      item.evidence = [...(item.evidence ?? []), evidence];
+      saveChecklist(customer.id, checklist);
+      recordChange({
+        entityType: "checklistItem",
+        entityId: item.id,
+        customerId: customer.id,
+        action: "update",
+        before: {},
+        after: { evidence: `${evidence.id}: ${evidence.kind}: ${evidence.reference}` },
+        changedBy,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Evidence attached to **${item.title}** (${item.id}).\n\n${formatEvidence(evidence)}`,
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,113 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { recordChange } from "../../data/changeLog.js";
+import { currentPhase } from "../../data/lifecycle.js";
+import { evaluatePhaseGate } from "../../data/phaseGates.js";
+import { resolveActor } from "../../utils/identity.js";
+
+export function registerEvaluatePhaseGate(server: McpServer): void {
+  server.tool(
+    "evaluate_phase_gate",
+    "Check whether a customer can exit its current implementation phase (Initiate → Implement → Prepare → Operate). Exit criteria: required categories complete, no Blocked items, and mandatory deliverables Completed with evidence. Set advance to move to the next phase when the gate passes; unmet criteria can be overridden with an overrideReason, which is recorded in the change history.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      phase: z
+        .enum(["Initiate", "Implement", "Prepare", "Operate"])
+        .optional()
+        .describe("Phase to evaluate. Default: the customer's current phase"),
+      advance: z
+        .boolean()
+        .optional()
+        .describe("Move the customer to the next phase if the gate passes. Default: false"),
+      overrideReason: z
+        .string()
+        .optional()
+        .describe("Justification for advancing despite unmet criteria. Recorded in the change history."),
+    },
+    async ({ customerId, phase, advance, overrideReason }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+      const current = currentPhase(customer);
+
+      if (advance && phase && phase !== current) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${customer.name} is in the ${current} phase; only the current phase can be advanced. Use update_customer to set the phase directly.`,
+            },
+          ],
+        };
+      }
+
+      const evaluation = evaluatePhaseGate(customer, phase ?? current);
+      const gateList = evaluation.gates
+        .map((g) => `| ${g.passed ? "Met" : "Not met"} | ${g.description} | ${g.detail ?? ""} |`)
+        .join("\n");
+      const header = `## Phase Gate — ${customer.name}\n\n**Phase:** ${evaluation.phase}${
+        evaluation.phase === current ? " (current)" : ` (current: ${current})`
+      }${customer.currentPhase ? "" : " — inferred from status"}\n**Result:** ${
+        evaluation.passed ? "PASSED" : `NOT PASSED (${evaluation.unmetGates.length} of ${evaluation.gates.length} criteria unmet)`
+      }${evaluation.nextPhase ? `\n**Next Phase:** ${evaluation.nextPhase}` : ""}\n\n| Result | Criterion | Detail |\n|--------|-----------|--------|\n${gateList}`;
+
+      if (!advance) {
+        return {
+          content: [{ type: "text", text: header }],
+        };
+      }
+
+      if (!evaluation.nextPhase) {
+        return {
+          content: [{ type: "text", text: `${header}\n\n${evaluation.phase} is the final phase; there is nothing to advance to.` }],
+        };
+      }
+
+      if (!evaluation.passed && !overrideReason?.trim()) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${header}\n\nPhase not advanced. Resolve the unmet criteria, or call evaluate_phase_gate again with an overrideReason to proceed anyway.`,
+            },
+          ],
+        };
+      }
+
+      const before = { ...customer };
+      customer.currentPhase = evaluation.nextPhase;
+      customer.updatedAt = new Date().toISOString();
+      store.customers.set(customer.id, customer);
+      const override = evaluation.passed
+        ? undefined
+        : `Gate override: ${overrideReason!.trim()} (unmet: ${evaluation.unmetGates.map((g) => g.id).join(", ")})`;
+      recordChange({
+        entityType: "customer",
+        entityId: customer.id,
+        customerId: customer.id,
+        action: "update",
+        before,
+        after: customer,
+        changedBy: resolveActor(extra),
+        reason: override ?? `${evaluation.phase} phase gate passed`,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${header}\n\n**Phase advanced:** ${evaluation.phase} → ${evaluation.nextPhase}${
+              override ? `\nReason: ${overrideReason!.trim()}` : ""
+            }`,
+          },
+        ],
+      };
+    }
+  );
+}
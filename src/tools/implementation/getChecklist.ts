@@ -1,13 +1,16 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { formatContact, resolveOwner } from "../../data/contacts.js";
+import { daysOverdue } from "../../data/scheduleRisk.js";
 
 export function registerGetChecklist(server: McpServer): void {
   server.tool(
     "get_implementation_checklist",
     "Get the FastTrack implementation checklist for a customer. Optionally filter by phase (Initiate, Implement, Prepare, Operate) or status.",
     {
-      customerId: z.string().describe("Customer ID (e.g. cust-001)"),
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
       phase: z
         .enum(["Initiate", "Implement", "Prepare", "Operate"])
         .optional()
@@ -18,21 +21,22 @@ export function registerGetChecklist(server: McpServer): void {
         .describe("Filter by item status"),
     },
     async ({ customerId, phase, status }) => {
-      const customer = store.customers.get(customerId);
-      if (!customer) {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
         return {
-          content: [{ type: "text", text: `Customer not found: ${customerId}` }],
+          content: [{ type: "text", text: lookup.message }],
         };
       }
+      const customer = lookup.customer;
 
-      let checklist = store.checklists.get(customerId) || [];
+      let checklist = store.checklists.get(customer.id) || [];
 
       if (checklist.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `No implementation checklist found for ${customer.name}. Use add_checklist_item to create one.`,
+              text: `No implementation checklist found for ${customer.name}. Use apply_checklist_template to generate one from a template, or add_checklist_item to add items one at a time.`,
             },
           ],
         };
@@ -52,6 +56,32 @@ export function registerGetChecklist(server: McpServer): void {
         grouped[item.phase].push(item);
       }
 
+      // Show the people behind role-style owners (e.g. "Project Manager")
+      const ownerLabel = (owner: string): string => {
+        const contacts = resolveOwner(customer.id, owner);
+        if (contacts.length === 0) return owner;
+        const people = contacts.map(formatContact).join(", ");
+        return contacts.length === 1 && contacts[0].name === owner ? people : `${owner} (${people})`;
+      };
+
+      const overdueLabel = (item: (typeof checklist)[number]): string => {
+        const days = daysOverdue(item);
+        return days > 0 ? ` (OVERDUE by ${days} day${days === 1 ? "" : "s"})` : "";
+      };
+
+      // Completed items need evidence to count in a readiness review
+      const activityLabel = (item: (typeof checklist)[number]): string => {
+        const parts = [
+          item.comments?.length ? `Comments: ${item.comments.length}` : "",
+          item.evidence?.length
+            ? `Evidence: ${item.evidence.length}`
+            : item.status === "Completed"
+              ? "Evidence: none"
+              : "",
+        ].filter(Boolean);
+        return parts.length > 0 ? `\n  ${parts.join(" | ")}` : "";
+      };
+
       let output = `## Implementation Checklist — ${customer.name}\n\n`;
 
       for (const [phaseName, items] of Object.entries(grouped)) {
@@ -67,7 +97,9 @@ export function registerGetChecklist(server: McpServer): void {
                 : item.status === "Blocked"
                   ? "[!]"
                   : "[ ]";
-          output += `- ${icon} **${item.title}** (${item.id})\n  ${item.description}\n  Status: ${item.status}${item.owner ? ` | Owner: ${item.owner}` : ""}${item.dueDate ? ` | Due: ${item.dueDate}` : ""}\n\n`;
+          output += `- ${icon} **${item.title}** (${item.id})\n  ${item.description}\n  Status: ${item.status}${item.owner ? ` | Owner: ${ownerLabel(item.owner)}` : ""}${item.dueDate ? ` | Due: ${item.dueDate}${overdueLabel(item)}` : ""}${
+            item.blockedBy ? ` | Blocked by: ${item.blockedBy.join(", ")}` : ""
+          }${item.dependsOn?.length ? `\n  Depends on: ${item.dependsOn.join(", ")}` : ""}${activityLabel(item)}\n\n`;
         }
       }
 
@@ -0,0 +1,96 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { computeCriticalPath, DEFAULT_EFFORT_DAYS } from "../../data/criticalPath.js";
+
+export function registerGetCriticalPath(server: McpServer): void {
+  server.tool(
+    "get_critical_path",
+    "Compute the critical path of open checklist items to go-live, using item dependencies, due dates, and estimated effort. Shows the chain that drives the projected finish and the slack per item.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+    },
+    async ({ customerId }) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const checklist = store.checklists.get(customer.id) || [];
+      const result = computeCriticalPath(customer, checklist);
+      if (result.scheduled.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: checklist.length === 0
+                ? `No implementation checklist found for ${customer.name}.`
+                : `All checklist items for ${customer.name} are complete — nothing left on the critical path.`,
+            },
+          ],
+        };
+      }
+
+      const slackLabel = (days: number) => (days < 0 ? `${days} (late)` : String(days));
+
+      const goLive =
+        result.slackToGoLive === undefined
+          ? "**Go-Live:** TBD"
+          : `**Go-Live:** ${result.goLiveDate} | **Slack to go-live:** ${
+              result.slackToGoLive < 0 ? `late by ${-result.slackToGoLive} day(s)` : `${result.slackToGoLive} day(s)`
+            }`;
+
+      const path = result.path
+        .map(
+          (s, i) =>
+            `${i + 1}. **${s.item.title}** (${s.item.id}) — ${s.item.status}, ${s.effortDays}d${
+              s.assumedEffort ? "*" : ""
+            }, ${s.earliestStart} → ${s.earliestFinish}, slack ${slackLabel(s.slackDays)}`
+        )
+        .join("\n");
+
+      const table = [...result.scheduled]
+        .sort((a, b) => a.slackDays - b.slackDays || a.earliestFinish.localeCompare(b.earliestFinish))
+        .map(
+          (s) =>
+            `| ${s.item.id} | ${s.item.title} | ${s.item.status} | ${s.effortDays}${s.assumedEffort ? "*" : ""} | ${
+              s.item.dependsOn?.join(", ") || "—"
+            } | ${s.earliestFinish} | ${s.latestFinish} | ${slackLabel(s.slackDays)} |`
+        )
+        .join("\n");
+
+      const notes: string[] = [];
+      const late = result.scheduled.filter((s) => s.slackDays < 0);
+      if (late.length > 0) {
+        notes.push(`WARNING: ${late.length} item(s) cannot finish by their due date or a dependent's start.`);
+      }
+      const blockedOnPath = result.path.filter((s) => s.item.status === "Blocked");
+      if (blockedOnPath.length > 0) {
+        notes.push(
+          `CRITICAL: Blocked item(s) on the critical path: ${blockedOnPath.map((s) => s.item.id).join(", ")}.`
+        );
+      }
+      const assumed = result.scheduled.filter((s) => s.assumedEffort).length;
+      if (assumed > 0) {
+        notes.push(
+          `INFO: * ${assumed} item(s) have no effort estimate; ${DEFAULT_EFFORT_DAYS} days assumed. Set estimatedEffortDays with update_checklist_item.`
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## Critical Path — ${customer.name}\n\n**From:** ${result.startDate} | **Projected finish:** ${result.projectedFinish}\n${goLive}\n\n### Path to Go-Live\n${path}\n\n### Slack by Item\n| ID | Title | Status | Effort (days) | Depends On | Earliest Finish | Latest Finish | Slack (days) |\n|----|-------|--------|---------------|------------|-----------------|---------------|--------------|\n${table}${
+              notes.length > 0 ? `\n\n${notes.map((n) => `- ${n}`).join("\n")}` : ""
+            }`,
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,100 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { buildProgressSnapshot } from "../../data/progressCounts.js";
+import { computeProgressTrend, progressSnapshots, sparkline } from "../../data/progressSnapshots.js";
+import { daysBetween } from "../../utils/dates.js";
+
+export function registerGetProgressTrend(server: McpServer): void {
+  server.tool(
+    "get_progress_trend",
+    "Show checklist progress over time for a customer from daily snapshots: burndown of remaining items, weekly completion velocity, and a forecast completion date. Includes a text sparkline and the raw series for charting.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      phase: z
+        .enum(["Initiate", "Implement", "Prepare", "Operate"])
+        .optional()
+        .describe("Only count items in this phase"),
+      days: z
+        .number()
+        .int()
+        .min(7)
+        .max(365)
+        .optional()
+        .describe("How many days of history to show. Default: 90"),
+      velocityWeeks: z
+        .number()
+        .int()
+        .min(1)
+        .max(26)
+        .optional()
+        .describe("Weeks of history used for velocity and the forecast. Default: 4"),
+    },
+    async ({ customerId, phase, days, velocityWeeks }) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const checklist = store.checklists.get(customer.id) || [];
+      if (checklist.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No implementation checklist found for ${customer.name}, so there is no progress to trend.`,
+            },
+          ],
+        };
+      }
+
+      // Today's point reflects the current checklist; it is computed here, not stored
+      const current = buildProgressSnapshot(customer.id, checklist);
+      const snapshots = [...progressSnapshots(customer.id).filter((s) => s.date < current.date), current];
+      const trend = computeProgressTrend(snapshots, { phase, days, velocityWeeks });
+      const points = trend.points;
+      const first = points[0];
+      const last = points[points.length - 1];
+
+      let forecast: string;
+      if (trend.remaining === 0) {
+        forecast = "All items done.";
+      } else if (!trend.forecastDate) {
+        forecast = `No forecast: no net completions in the last ${trend.velocityWeeks} week(s).`;
+      } else if (customer.goLiveDate) {
+        const delta = daysBetween(customer.goLiveDate, trend.forecastDate);
+        forecast = `${trend.forecastDate} (${
+          delta > 0 ? `${delta} day(s) after` : delta < 0 ? `${-delta} day(s) before` : "on"
+        } go-live ${customer.goLiveDate})`;
+      } else {
+        forecast = trend.forecastDate;
+      }
+
+      const recentWeeks = trend.weekly.slice(-8);
+      const weekRows = recentWeeks.map((w) => `| ${w.weekStart} | ${w.completed} |`).join("\n");
+
+      const raw = {
+        customerId: customer.id,
+        phase: phase ?? null,
+        dates: points.map((p) => p.date),
+        total: points.map((p) => p.total),
+        done: points.map((p) => p.done),
+        remaining: points.map((p) => p.remaining),
+        weekly: trend.weekly,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## Progress Trend — ${customer.name}${phase ? ` (${phase})` : ""}\n\n**Remaining:** ${trend.remaining} of ${last.total} | **Done:** ${last.done}\n**Velocity:** ${trend.averageVelocity} item(s)/week (last ${trend.velocityWeeks} week(s))\n**Forecast Completion:** ${forecast}\n\n### Burndown (remaining items)\n\`${sparkline(points.map((p) => p.remaining))}\` ${first.date} → ${last.date}: ${first.remaining} → ${last.remaining}\n\n### Weekly Velocity (items finished)\n\`${sparkline(recentWeeks.map((w) => w.completed))}\`\n\n| Week Of | Finished |\n|---------|----------|\n${weekRows}\n\n### Raw Series\n\`\`\`json\n${JSON.stringify(raw)}\n\`\`\``,
+          },
+        ],
+      };
+    }
+  );
+}
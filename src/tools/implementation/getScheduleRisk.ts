@@ -0,0 +1,109 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { assessScheduleRisk } from "../../data/scheduleRisk.js";
+
+export function registerGetScheduleRisk(server: McpServer): void {
+  server.tool(
+    "get_schedule_risk",
+    "Assess schedule risk for a customer's go-live: overdue checklist items, items due after go-live, phases whose remaining work cannot finish before go-live, and a projected readiness date.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+    },
+    async ({ customerId }) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const checklist = store.checklists.get(customer.id) || [];
+      if (checklist.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No implementation checklist found for ${customer.name}. Use apply_checklist_template to generate one.`,
+            },
+          ],
+        };
+      }
+
+      const risk = assessScheduleRisk(customer, checklist);
+
+      const findings: string[] = [];
+      if (!risk.goLiveDate) {
+        findings.push("WARNING: No go-live date set; only overdue items can be checked.");
+      } else if (risk.daysToGoLive! < 0 && !["Post-Go-Live", "Completed"].includes(customer.status)) {
+        findings.push(
+          `CRITICAL: Go-live date ${risk.goLiveDate} passed ${-risk.daysToGoLive!} day(s) ago but the engagement is still ${customer.status}. Update the go-live date with update_customer.`
+        );
+      }
+      if (risk.slippageDays > 0) {
+        findings.push(
+          `CRITICAL: Remaining pre-go-live work projects to finish on ${risk.projectedReadinessDate}, ${risk.slippageDays} day(s) after go-live.`
+        );
+      }
+      for (const phase of risk.phases.filter((p) => !p.fits)) {
+        findings.push(
+          `HIGH: ${phase.phase} phase cannot finish before go-live: ${phase.openItems} open item(s), ${phase.remainingEffortDays} day(s) of effort, projected finish ${phase.projectedFinish}.`
+        );
+      }
+      if (risk.overdue.length > 0) {
+        findings.push(`HIGH: ${risk.overdue.length} item(s) overdue.`);
+      }
+      if (risk.dueAfterGoLive.length > 0) {
+        findings.push(
+          `MEDIUM: ${risk.dueAfterGoLive.length} pre-go-live item(s) due after go-live: ${risk.dueAfterGoLive
+            .map((i) => `${i.title} (${i.id}, due ${i.dueDate})`)
+            .join(", ")}.`
+        );
+      }
+
+      if (risk.invalidDueDates.length > 0) {
+        findings.push(
+          `WARNING: ${risk.invalidDueDates.length} item(s) have a due date that is not YYYY-MM-DD and were not checked: ${risk.invalidDueDates
+            .map((i) => `${i.title} (${i.id}, due "${i.dueDate}")`)
+            .join(", ")}. Fix them with bulk_update_checklist.`
+        );
+      }
+
+      const overdue =
+        risk.overdue.length > 0
+          ? `| ID | Title | Phase | Status | Due | Days Overdue |\n|----|-------|-------|--------|-----|--------------|\n${risk.overdue
+              .map(
+                (o) =>
+                  `| ${o.item.id} | ${o.item.title} | ${o.item.phase} | ${o.item.status} | ${o.item.dueDate} | ${o.daysOverdue} |`
+              )
+              .join("\n")}`
+          : "No overdue items.";
+
+      const phases = risk.phases
+        .map(
+          (p) =>
+            `| ${p.phase} | ${p.openItems} | ${p.remainingEffortDays} | ${p.projectedFinish ?? "—"} | ${
+              p.openItems === 0 ? "Done" : p.fits ? "Fits" : "Does not fit"
+            } |`
+        )
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `## Schedule Risk — ${customer.name}\n\n**Rating:** ${risk.rating}\n**Go-Live:** ${risk.goLiveDate ?? "TBD"}${
+              risk.daysToGoLive !== undefined ? ` (${risk.daysToGoLive} day(s) from today)` : ""
+            }\n**Projected Readiness:** ${risk.projectedReadinessDate}${
+              risk.slippageDays > 0 ? ` (${risk.slippageDays} day(s) late)` : ""
+            }\n\n### Findings\n${
+              findings.length > 0 ? findings.map((f) => `- ${f}`).join("\n") : "- No schedule risks found."
+            }\n\n### Phases\n| Phase | Open Items | Remaining Effort (days) | Projected Finish | Before Go-Live |\n|-------|------------|-------------------------|------------------|----------------|\n${phases}\n\n### Overdue Items\n${overdue}`,
+          },
+        ],
+      };
+    }
+  );
+}
@@ -1,26 +1,57 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { store } from "../../data/store.js";
-import type { ChecklistItem, ChecklistPhase } from "../../types/index.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { saveChecklist } from "../../data/checklists.js";
+import { formatContact, resolveOwner } from "../../data/contacts.js";
+import { recordChange } from "../../data/changeLog.js";
+import {
+  propagateBlocked,
+  recordPropagation,
+  validateDependencies,
+} from "../../data/checklistDependencies.js";
+import { unlinkRaidItems } from "../../data/raid.js";
+import { resolveActor } from "../../utils/identity.js";
+import { isIsoDate } from "../../utils/validation.js";
+import type { ChecklistComment, ChecklistItem, ChecklistPhase } from "../../types/index.js";
 
 export function registerUpdateProgress(server: McpServer): void {
   server.tool(
     "update_checklist_item",
-    "Update the status of a checklist item for a customer implementation.",
+    "Update a checklist item for a customer implementation: status, notes, dependencies, or effort estimate. Blocking an item also blocks the open items that depend on it; unblocking restores them.",
     {
-      customerId: z.string().describe("Customer ID (e.g. cust-001)"),
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
       itemId: z.string().describe("Checklist item ID (e.g. chk-001)"),
       status: z
         .enum(["Not Started", "In Progress", "Completed", "Blocked", "N/A"])
+        .optional()
         .describe("New status for the item"),
-      notes: z.string().optional().describe("Optional notes about the update"),
+      notes: z.string().optional().describe("Optional notes about the update (replaces the current notes)"),
+      comment: z.string().optional().describe("Comment to append to the item's thread, e.g. why the status changed"),
+      dependsOn: z
+        .array(z.string())
+        .optional()
+        .describe("IDs of items that must finish first — replaces the current list; empty array to clear"),
+      estimatedEffortDays: z
+        .number()
+        .min(0)
+        .optional()
+        .describe("Remaining effort in calendar days, used by get_critical_path"),
     },
-    async ({ customerId, itemId, status, notes }) => {
-      const checklist = store.checklists.get(customerId);
+    async ({ customerId, itemId, status, notes, comment, dependsOn, estimatedEffortDays }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const checklist = store.checklists.get(customer.id);
       if (!checklist) {
         return {
           content: [
-            { type: "text", text: `No checklist found for customer: ${customerId}` },
+            { type: "text", text: `No checklist found for customer: ${customer.id}` },
           ],
         };
       }
@@ -34,17 +65,111 @@ export function registerUpdateProgress(server: McpServer): void {
         };
       }
 
+      if (
+        status === undefined &&
+        notes === undefined &&
+        !comment?.trim() &&
+        dependsOn === undefined &&
+        estimatedEffortDays === undefined
+      ) {
+        return {
+          content: [
+            { type: "text", text: "Nothing to update. Provide status, notes, comment, dependsOn, or estimatedEffortDays." },
+          ],
+        };
+      }
+
+      const errors: string[] = [];
+      const deps = dependsOn?.map((d) => d.trim()).filter(Boolean);
+      if (deps) {
+        errors.push(...validateDependencies(checklist, item.id, deps));
+      }
+      const upstream = deps ?? item.dependsOn ?? [];
+      const blockers = upstream.filter((d) => checklist.find((i) => i.id === d)?.status === "Blocked");
+      if (
+        (status === "Not Started" || status === "In Progress") &&
+        blockers.length > 0
+      ) {
+        errors.push(`${item.id} depends on blocked item(s) ${blockers.join(", ")}; unblock them first.`);
+      }
+
+      if (errors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `Checklist item not updated:\n${errors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
+      }
+
+      const before = { ...item };
       const previous = item.status;
-      item.status = status;
+      if (status !== undefined && status !== item.status) {
+        item.status = status;
+      }
+      if (status !== undefined) {
+        // An explicit status replaces any block inherited from upstream
+        delete item.blockedBy;
+        delete item.statusBeforeBlock;
+      }
       if (notes) {
         item.notes = notes;
       }
+      if (deps !== undefined) {
+        item.dependsOn = deps.length > 0 ? Array.from(new Set(deps)) : undefined;
+      }
+      if (estimatedEffortDays !== undefined) {
+        item.estimatedEffortDays = estimatedEffortDays;
+      }
+
+      const propagated = propagateBlocked(checklist).filter((c) => c.after.id !== item.id);
+      saveChecklist(customer.id, checklist);
+      const changedBy = resolveActor(extra);
+      recordChange({
+        entityType: "checklistItem",
+        entityId: item.id,
+        customerId: customer.id,
+        action: "update",
+        before,
+        after: item,
+        changedBy,
+      });
+      const dependents = recordPropagation(customer.id, propagated, changedBy);
+
+      // Appended after the field update so the thread is audited as its own entry
+      if (comment?.trim()) {
+        const entry: ChecklistComment = {
+          id: store.nextId("cmt"),
+          author: changedBy,
+          text: comment.trim(),
+          createdAt: new Date().toISOString(),
+        };
+        item.comments = [...(item.comments ?? []), entry];
+        saveChecklist(customer.id, checklist);
+        recordChange({
+          entityType: "checklistItem",
+          entityId: item.id,
+          customerId: customer.id,
+          action: "update",
+          before: {},
+          after: { comment: entry.text },
+          changedBy,
+        });
+      }
+
+      const details = [
+        previous !== item.status ? `${previous} → ${item.status}` : `Status: ${item.status}`,
+        item.blockedBy ? `Blocked by: ${item.blockedBy.join(", ")}` : "",
+        notes ? `Notes: ${notes}` : "",
+        comment?.trim() ? `Comment added: ${comment.trim()}` : "",
+        deps !== undefined ? `Depends on: ${item.dependsOn?.join(", ") || "nothing"}` : "",
+        estimatedEffortDays !== undefined ? `Estimated effort: ${estimatedEffortDays} day(s)` : "",
+      ].filter(Boolean);
 
       return {
         content: [
           {
             type: "text",
-            text: `Checklist item updated.\n\n**${item.title}** (${item.id})\n${previous} → ${status}${notes ? `\nNotes: ${notes}` : ""}`,
+            text: `Checklist item updated.\n\n**${item.title}** (${item.id})\n${details.join("\n")}${dependents}`,
           },
         ],
       };
@@ -55,7 +180,7 @@ export function registerUpdateProgress(server: McpServer): void {
     "add_checklist_item",
     "Add a new item to a customer's implementation checklist.",
     {
-      customerId: z.string().describe("Customer ID"),
+      customerId: z.string().describe("Customer ID or name"),
       phase: z
         .enum(["Initiate", "Implement", "Prepare", "Operate"])
         .describe("Implementation phase"),
@@ -64,24 +189,40 @@ export function registerUpdateProgress(server: McpServer): void {
         .describe("Category (e.g. Solution Design, Data Migration, Testing)"),
       title: z.string().describe("Item title"),
       description: z.string().describe("Item description"),
-      owner: z.string().optional().describe("Responsible person or role"),
+      owner: z.string().optional().describe("Responsible person or role — a contact name, email, or role (see list_contacts)"),
       dueDate: z.string().optional().describe("Due date (YYYY-MM-DD)"),
+      dependsOn: z.array(z.string()).optional().describe("IDs of items that must finish first (e.g. ['chk-004'])"),
+      estimatedEffortDays: z
+        .number()
+        .min(0)
+        .optional()
+        .describe("Estimated effort in calendar days, used by get_critical_path"),
     },
-    async ({ customerId, phase, category, title, description, owner, dueDate }) => {
-      const customer = store.customers.get(customerId);
-      if (!customer) {
+    async ({ customerId, phase, category, title, description, owner, dueDate, dependsOn, estimatedEffortDays }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
         return {
-          content: [{ type: "text", text: `Customer not found: ${customerId}` }],
+          content: [{ type: "text", text: lookup.message }],
         };
       }
+      const customer = lookup.customer;
 
-      let checklist = store.checklists.get(customerId);
-      if (!checklist) {
-        checklist = [];
-        store.checklists.set(customerId, checklist);
+      const checklist = store.checklists.get(customer.id) || [];
+
+      const deps = Array.from(new Set((dependsOn ?? []).map((d) => d.trim()).filter(Boolean)));
+      const errors = deps.length > 0 ? validateDependencies(checklist, "(new item)", deps) : [];
+      if (dueDate && !isIsoDate(dueDate)) {
+        errors.push(`dueDate "${dueDate}" is not a valid date. Use YYYY-MM-DD.`);
+      }
+      if (errors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `Checklist item not added:\n${errors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
       }
 
-      const id = `chk-${String(checklist.length + 1).padStart(3, "0")}`;
+      const id = store.nextId("chk");
       const item: ChecklistItem = {
         id,
         phase: phase as ChecklistPhase,
@@ -91,15 +232,122 @@ export function registerUpdateProgress(server: McpServer): void {
         status: "Not Started",
         owner,
         dueDate,
+        ...(deps.length > 0 && { dependsOn: deps }),
+        ...(estimatedEffortDays !== undefined && { estimatedEffortDays }),
       };
 
+      let ownerNote = "";
+      if (owner) {
+        const contacts = resolveOwner(customer.id, owner);
+        ownerNote =
+          contacts.length > 0
+            ? ` → ${contacts.map(formatContact).join(", ")}`
+            : " (no matching contact — use add_contact to register one)";
+      }
+
       checklist.push(item);
+      // A new item depending on a blocked one starts out blocked
+      propagateBlocked(checklist);
+      saveChecklist(customer.id, checklist);
+      recordChange({
+        entityType: "checklistItem",
+        entityId: id,
+        customerId: customer.id,
+        action: "create",
+        after: item,
+        changedBy: resolveActor(extra),
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Checklist item added for ${customer.name}.\n\n**ID:** ${id}\n**Phase:** ${phase}\n**Title:** ${title}${owner ? `\n**Owner:** ${owner}${ownerNote}` : ""}${dueDate ? `\n**Due:** ${dueDate}` : ""}${
+              deps.length > 0 ? `\n**Depends on:** ${deps.join(", ")}` : ""
+            }${item.blockedBy ? `\n**Status:** Blocked (by ${item.blockedBy.join(", ")})` : ""}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "remove_checklist_item",
+    "Remove an item from a customer's implementation checklist. Other items' dependencies on it and RAID log links to it are removed too.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      itemId: z.string().describe("Checklist item ID (e.g. chk-001)"),
+      reason: z.string().optional().describe("Optional reason for the removal"),
+    },
+    async ({ customerId, itemId, reason }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const checklist = store.checklists.get(customer.id);
+      if (!checklist) {
+        return {
+          content: [
+            { type: "text", text: `No checklist found for customer: ${customer.id}` },
+          ],
+        };
+      }
+
+      const item = checklist.find((i) => i.id === itemId);
+      if (!item) {
+        return {
+          content: [
+            { type: "text", text: `Checklist item not found: ${itemId}` },
+          ],
+        };
+      }
+
+      const changedBy = resolveActor(extra);
+      const remaining = checklist.filter((i) => i.id !== itemId);
+      const unlinked: string[] = [];
+      for (const other of remaining) {
+        if (!other.dependsOn?.includes(itemId)) continue;
+        const before = { ...other };
+        other.dependsOn = other.dependsOn.filter((d) => d !== itemId);
+        if (other.dependsOn.length === 0) delete other.dependsOn;
+        unlinked.push(other.id);
+        recordChange({
+          entityType: "checklistItem",
+          entityId: other.id,
+          customerId: customer.id,
+          action: "update",
+          before,
+          after: other,
+          changedBy,
+          reason: `Dependency ${itemId} removed`,
+        });
+      }
+      const propagated = propagateBlocked(remaining);
+
+      saveChecklist(customer.id, remaining);
+      recordChange({
+        entityType: "checklistItem",
+        entityId: itemId,
+        customerId: customer.id,
+        action: "delete",
+        before: item,
+        changedBy,
+        reason,
+      });
+      const dependents = recordPropagation(customer.id, propagated, changedBy);
+      const raidUnlinked = unlinkRaidItems(customer.id, itemId, changedBy);
 
       return {
         content: [
           {
             type: "text",
-            text: `Checklist item added for ${customer.name}.\n\n**ID:** ${id}\n**Phase:** ${phase}\n**Title:** ${title}${owner ? `\n**Owner:** ${owner}` : ""}${dueDate ? `\n**Due:** ${dueDate}` : ""}`,
+            text: `Checklist item **${item.title}** (${itemId}) removed.${
+              unlinked.length > 0 ? `\n\nDependency removed from: ${unlinked.join(", ")}` : ""
+            }${raidUnlinked.length > 0 ? `\n\nRAID link removed from: ${raidUnlinked.join(", ")}` : ""}${dependents}`,
           },
         ],
       };
@@ -5,17 +5,41 @@ import { registerListCustomers } from "./customer/listCustomers.js";
 import { registerGetCustomer } from "./customer/getCustomer.js";
 import { registerManageCustomer } from "./customer/manageCustomer.js";
 
+// Contact tools
+import { registerManageContacts } from "./contacts/manageContacts.js";
+
 // Environment tools
 import { registerGetEnvironmentInfo } from "./environment/getEnvironmentInfo.js";
 import { registerValidateEnvironment } from "./environment/validateEnvironment.js";
+import { registerUpdateEnvironment } from "./environment/updateEnvironment.js";
+import { registerGetVersionCalendar } from "./environment/getVersionCalendar.js";
+import { registerManageDeployments } from "./environment/manageDeployments.js";
+import { registerProbeEnvironment } from "./environment/probeEnvironment.js";
 
 // Implementation tools
 import { registerGetChecklist } from "./implementation/getChecklist.js";
 import { registerUpdateProgress } from "./implementation/updateProgress.js";
+import { registerBulkUpdate } from "./implementation/bulkUpdate.js";
+import { registerChecklistActivity } from "./implementation/checklistActivity.js";
+import { registerApplyChecklistTemplate } from "./implementation/applyTemplate.js";
+import { registerGetCriticalPath } from "./implementation/getCriticalPath.js";
+import { registerGetScheduleRisk } from "./implementation/getScheduleRisk.js";
+import { registerEvaluatePhaseGate } from "./implementation/evaluatePhaseGate.js";
+import { registerGetProgressTrend } from "./implementation/getProgressTrend.js";
+
+// RAID Log tools
+import { registerManageRaid } from "./raid/manageRaid.js";
 
 // Best Practices tools
 import { registerSearchBestPractices } from "./bestPractices/searchBestPractices.js";
 
+// Portfolio tools
+import { registerGetPortfolioOverview } from "./portfolio/getPortfolioOverview.js";
+import { registerGetArchitectWorkload } from "./portfolio/getArchitectWorkload.js";
+
+// Audit tools
+import { registerGetChangeHistory } from "./audit/getChangeHistory.js";
+
 // Data Extraction tools
 import { registerExtractEmail } from "./extraction/extractEmail.js";
 import { registerExtractPdf } from "./extraction/extractPdf.js";
@@ -29,17 +53,41 @@ export function registerAllTools(server: McpServer): void {
   registerGetCustomer(server);
   registerManageCustomer(server);
 
+  // Stakeholder Contacts
+  registerManageContacts(server);
+
   // Environment Management
   registerGetEnvironmentInfo(server);
   registerValidateEnvironment(server);
+  registerUpdateEnvironment(server);
+  registerGetVersionCalendar(server);
+  registerManageDeployments(server);
+  registerProbeEnvironment(server);
 
   // Implementation Tracking
   registerGetChecklist(server);
   registerUpdateProgress(server);
+  registerBulkUpdate(server);
+  registerChecklistActivity(server);
+  registerApplyChecklistTemplate(server);
+  registerGetCriticalPath(server);
+  registerGetScheduleRisk(server);
+  registerEvaluatePhaseGate(server);
+  registerGetProgressTrend(server);
+
+  // RAID Log
+  registerManageRaid(server);
 
   // Knowledge Base
   registerSearchBestPractices(server);
 
+  // Portfolio
+  registerGetPortfolioOverview(server);
+  registerGetArchitectWorkload(server);
+
+  // Audit
+  registerGetChangeHistory(server);
+
   // Data Extraction
   registerExtractEmail(server);
   registerExtractPdf(server);
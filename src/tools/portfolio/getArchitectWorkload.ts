@@ -0,0 +1,149 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { daysBetween, todayIso } from "../../utils/dates.js";
+import type { Customer, CustomerStatus } from "../../types/index.js";
+
+/** Relative effort an engagement demands from its architect, by status */
+const STATUS_WEIGHT: Record<CustomerStatus, number> = {
+  Onboarding: 1,
+  Active: 1.5,
+  "Go-Live": 2,
+  "Post-Go-Live": 1,
+  Completed: 0,
+};
+
+/** Extra weight for engagements whose go-live is close */
+function goLiveWeight(customer: Customer, today: string): number {
+  if (!customer.goLiveDate || customer.status === "Completed") return 0;
+  const days = daysBetween(today, customer.goLiveDate);
+  if (days < 0) return 0;
+  if (days <= 28) return 1;
+  if (days <= 56) return 0.5;
+  return 0;
+}
+
+interface Overlap {
+  first: Customer;
+  second: Customer;
+  daysApart: number;
+}
+
+export function registerGetArchitectWorkload(server: McpServer): void {
+  server.tool(
+    "get_architect_workload",
+    "Show solution architect workload across customer engagements: weighted load by status and upcoming go-lives, overlapping go-live windows for the same architect, and unassigned engagements. Use it to rebalance assignments.",
+    {
+      architect: z
+        .string()
+        .optional()
+        .describe("Limit to one architect (case-insensitive name match)"),
+      windowDays: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Go-lives for the same architect closer than this many days are flagged as overlapping. Default: 21"),
+      capacity: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Weighted load above which an architect is flagged as overloaded. Default: 5"),
+    },
+    async ({ architect, windowDays, capacity }) => {
+      const window = windowDays ?? 21;
+      const maxLoad = capacity ?? 5;
+      const today = todayIso();
+
+      const customers = store.customers.filter((c) => !c.archivedAt && c.status !== "Completed");
+
+      // Group by architect, merging case/whitespace variants of the same name
+      const byArchitect = new Map<string, { name: string; customers: Customer[] }>();
+      for (const c of customers) {
+        if (!c.assignedArchitect) continue;
+        const key = c.assignedArchitect.trim().toLowerCase();
+        if (!byArchitect.has(key)) {
+          byArchitect.set(key, { name: c.assignedArchitect.trim(), customers: [] });
+        }
+        byArchitect.get(key)!.customers.push(c);
+      }
+
+      let groups = Array.from(byArchitect.values());
+      if (architect) {
+        groups = groups.filter((g) => g.name.toLowerCase().includes(architect.toLowerCase()));
+        if (groups.length === 0) {
+          return {
+            content: [{ type: "text", text: `No active engagements found for architect "${architect}".` }],
+          };
+        }
+      }
+
+      const workloads = groups
+        .map((g) => {
+          const load = g.customers.reduce(
+            (sum, c) => sum + STATUS_WEIGHT[c.status] + goLiveWeight(c, today),
+            0
+          );
+
+          const dated = g.customers
+            .filter((c) => c.goLiveDate && c.goLiveDate >= today)
+            .sort((a, b) => a.goLiveDate!.localeCompare(b.goLiveDate!));
+          const overlaps: Overlap[] = [];
+          for (let i = 0; i < dated.length; i++) {
+            for (let j = i + 1; j < dated.length; j++) {
+              const daysApart = daysBetween(dated[i].goLiveDate!, dated[j].goLiveDate!);
+              if (daysApart < window) {
+                overlaps.push({ first: dated[i], second: dated[j], daysApart });
+              }
+            }
+          }
+
+          return { name: g.name, customers: g.customers, load, overlaps };
+        })
+        .sort((a, b) => b.load - a.load);
+
+      const unassigned = customers.filter((c) => !c.assignedArchitect);
+
+      let output = `## Architect Workload\n\n_Weights: Onboarding 1, Active 1.5, Go-Live 2, Post-Go-Live 1; +1 if go-live within 4 weeks, +0.5 within 8 weeks. Capacity: ${maxLoad}._\n\n`;
+
+      if (workloads.length > 0) {
+        output += "| Architect | Engagements | Weighted Load | Flags |\n|-----------|-------------|---------------|-------|\n";
+        for (const w of workloads) {
+          const flags = [
+            w.load > maxLoad ? "OVERLOADED" : "",
+            w.overlaps.length > 0 ? `${w.overlaps.length} go-live overlap(s)` : "",
+          ].filter(Boolean);
+          output += `| ${w.name} | ${w.customers.length} | ${w.load.toFixed(1)} | ${flags.join(", ") || "—"} |\n`;
+        }
+        output += "\n";
+
+        for (const w of workloads) {
+          output += `### ${w.name}\n`;
+          for (const c of w.customers) {
+            output += `- **${c.name}** (${c.id}) — ${c.status} | Go-Live: ${c.goLiveDate || "TBD"}\n`;
+          }
+          for (const o of w.overlaps) {
+            output += `- WARNING: Overlapping go-lives: ${o.first.name} (${o.first.goLiveDate}) and ${o.second.name} (${o.second.goLiveDate}) — ${o.daysApart} days apart\n`;
+          }
+          output += "\n";
+        }
+      } else {
+        output += "No architects currently assigned to active engagements.\n\n";
+      }
+
+      if (!architect) {
+        output += "### Unassigned Engagements\n";
+        output +=
+          unassigned.length > 0
+            ? unassigned
+                .map((c) => `- **${c.name}** (${c.id}) — ${c.status} | Go-Live: ${c.goLiveDate || "TBD"} | Modules: ${c.d365Modules.join(", ")}`)
+                .join("\n")
+            : "- None";
+      }
+
+      return {
+        content: [{ type: "text", text: output.trimEnd() }],
+      };
+    }
+  );
+}
@@ -0,0 +1,158 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { assessEnvironmentReadiness } from "../../data/environmentReadiness.js";
+import { addDays, daysBetween, todayIso } from "../../utils/dates.js";
+import type { ChecklistPhase } from "../../types/index.js";
+
+const PHASES: ChecklistPhase[] = ["Initiate", "Implement", "Prepare", "Operate"];
+
+function percent(done: number, total: number): number {
+  return total === 0 ? 0 : Math.round((done / total) * 100);
+}
+
+export function registerGetPortfolioOverview(server: McpServer): void {
+  server.tool(
+    "get_portfolio_overview",
+    "Portfolio dashboard across all FastTrack customers: upcoming go-lives, customers with blocked checklist items, checklist completion by phase, environment readiness scores, and engagements without an architect. Returns markdown plus structured JSON.",
+    {
+      weeks: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Look-ahead window for upcoming go-lives, in weeks. Default: 8"),
+      includeArchived: z
+        .boolean()
+        .optional()
+        .describe("Include archived customers. Default: false"),
+    },
+    async ({ weeks, includeArchived }) => {
+      const horizonWeeks = weeks ?? 8;
+      const today = todayIso();
+      const horizon = addDays(today, horizonWeeks * 7);
+
+      const customers = store.customers.filter((c) => includeArchived || !c.archivedAt);
+
+      const upcomingGoLives = customers
+        .filter((c) => c.goLiveDate && c.goLiveDate >= today && c.goLiveDate <= horizon)
+        .sort((a, b) => a.goLiveDate!.localeCompare(b.goLiveDate!))
+        .map((c) => ({
+          customerId: c.id,
+          name: c.name,
+          goLiveDate: c.goLiveDate!,
+          daysUntil: daysBetween(today, c.goLiveDate!),
+          status: c.status,
+          assignedArchitect: c.assignedArchitect ?? null,
+        }));
+
+      const blockedCustomers = customers
+        .map((c) => {
+          const blocked = (store.checklists.get(c.id) || []).filter((i) => i.status === "Blocked");
+          return {
+            customerId: c.id,
+            name: c.name,
+            blockedCount: blocked.length,
+            items: blocked.map((i) => ({ id: i.id, phase: i.phase, title: i.title })),
+          };
+        })
+        .filter((c) => c.blockedCount > 0)
+        .sort((a, b) => b.blockedCount - a.blockedCount);
+
+      const phaseCompletion = PHASES.map((phase) => {
+        let total = 0;
+        let completed = 0;
+        for (const c of customers) {
+          const items = (store.checklists.get(c.id) || []).filter(
+            (i) => i.phase === phase && i.status !== "N/A"
+          );
+          total += items.length;
+          completed += items.filter((i) => i.status === "Completed").length;
+        }
+        return { phase, completed, total, percent: percent(completed, total) };
+      });
+
+      const environmentReadiness = customers
+        .map((c) => {
+          const readiness = assessEnvironmentReadiness(c);
+          return {
+            customerId: c.id,
+            name: c.name,
+            score: readiness.score,
+            label: readiness.label,
+            environmentCount: readiness.environmentCount,
+          };
+        })
+        .sort((a, b) => a.score - b.score);
+
+      const unassigned = customers
+        .filter((c) => !c.assignedArchitect)
+        .map((c) => ({ customerId: c.id, name: c.name, status: c.status, goLiveDate: c.goLiveDate ?? null }));
+
+      const overview = {
+        generatedAt: new Date().toISOString(),
+        customerCount: customers.length,
+        horizonWeeks,
+        upcomingGoLives,
+        blockedCustomers,
+        phaseCompletion,
+        environmentReadiness,
+        unassignedCustomers: unassigned,
+      };
+
+      const lines: string[] = [
+        `## FastTrack Portfolio Overview (${customers.length} customers)`,
+        "",
+        `### Go-Lives in the Next ${horizonWeeks} Weeks`,
+      ];
+      lines.push(
+        ...(upcomingGoLives.length > 0
+          ? upcomingGoLives.map(
+              (g) => `- **${g.name}** (${g.customerId}) — ${g.goLiveDate} (in ${g.daysUntil} days) | ${g.status} | ${g.assignedArchitect || "Unassigned"}`
+            )
+          : ["- None scheduled"])
+      );
+
+      lines.push("", "### Customers with Blocked Items");
+      lines.push(
+        ...(blockedCustomers.length > 0
+          ? blockedCustomers.map(
+              (b) => `- **${b.name}** (${b.customerId}) — ${b.blockedCount} blocked: ${b.items.map((i) => `${i.title} [${i.phase}]`).join(", ")}`
+            )
+          : ["- None"])
+      );
+
+      lines.push(
+        "",
+        "### Checklist Completion by Phase",
+        "| Phase | Completed | Total | % |",
+        "|-------|-----------|-------|---|",
+        ...phaseCompletion.map((p) => `| ${p.phase} | ${p.completed} | ${p.total} | ${p.percent}% |`)
+      );
+
+      lines.push(
+        "",
+        "### Environment Readiness",
+        "| Customer | Score | Rating | Environments |",
+        "|----------|-------|--------|--------------|",
+        ...environmentReadiness.map(
+          (r) => `| ${r.name} (${r.customerId}) | ${r.score}/100 | ${r.label} | ${r.environmentCount} |`
+        )
+      );
+
+      lines.push("", "### Engagements without an Architect");
+      lines.push(
+        ...(unassigned.length > 0
+          ? unassigned.map((u) => `- **${u.name}** (${u.customerId}) — ${u.status} | Go-Live: ${u.goLiveDate || "TBD"}`)
+          : ["- None"])
+      );
+
+      return {
+        content: [
+          { type: "text", text: lines.join("\n") },
+          { type: "text", text: JSON.stringify(overview, null, 2) },
+        ],
+      };
+    }
+  );
+}
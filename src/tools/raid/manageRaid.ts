@@ -0,0 +1,341 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { store } from "../../data/store.js";
+import { lookupCustomer } from "../../data/customerResolver.js";
+import { diffFields, recordChange } from "../../data/changeLog.js";
+import {
+  RAID_STATUSES,
+  RAID_TYPES,
+  formatRaidScore,
+  isRaidClosed,
+  raidItemsForCustomer,
+  raidScore,
+  usesProbability,
+  validateRaidLinks,
+} from "../../data/raid.js";
+import { resolveActor } from "../../utils/identity.js";
+import { isIsoDate } from "../../utils/validation.js";
+import type { RaidItem, RaidRating } from "../../types/index.js";
+
+const rating = z.number().int().min(1).max(5);
+
+function formatField(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+function parseLinks(value: string): string[] {
+  return Array.from(new Set(value.split(",").map((v) => v.trim()).filter(Boolean)));
+}
+
+function raidLine(item: RaidItem): string {
+  const details = [
+    item.status,
+    `Score: ${formatRaidScore(item)}`,
+    item.owner ? `Owner: ${item.owner}` : "",
+    item.dueDate ? `Due: ${item.dueDate}` : "",
+  ].filter(Boolean);
+  return `- **${item.title}** (${item.id})\n  ${details.join(" | ")}${
+    item.mitigation ? `\n  ${item.type === "Decision" ? "Rationale" : "Mitigation"}: ${item.mitigation}` : ""
+  }${item.linkedItems?.length ? `\n  Linked: ${item.linkedItems.join(", ")}` : ""}`;
+}
+
+export function registerManageRaid(server: McpServer): void {
+  server.tool(
+    "add_raid_item",
+    "Add a risk, assumption, issue, or decision to a customer's RAID log. Risks and assumptions are scored probability × impact (1–25); issues are scored on impact alone as they have already happened.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      type: z.enum(RAID_TYPES).describe("Risk, Assumption, Issue, or Decision"),
+      title: z.string().describe("Short summary"),
+      description: z.string().optional().describe("Details"),
+      probability: rating.optional().describe("Likelihood 1 (very low) to 5 (very high). Risks and assumptions only"),
+      impact: rating.optional().describe("Impact 1 (very low) to 5 (very high)"),
+      owner: z.string().optional().describe("Responsible person or role"),
+      mitigation: z.string().optional().describe("Mitigation or response plan; for decisions, the rationale"),
+      dueDate: z.string().optional().describe("Target date for the mitigation or decision (YYYY-MM-DD)"),
+      linkedItems: z.string().optional().describe("Comma-separated related checklist item IDs (e.g. chk-004, chk-006)"),
+    },
+    async ({ customerId, type, title, description, probability, impact, owner, mitigation, dueDate, linkedItems }, extra) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const errors: string[] = [];
+      if (!title.trim()) {
+        errors.push("title cannot be empty.");
+      }
+      if (probability !== undefined && !usesProbability(type)) {
+        errors.push(`probability applies to risks and assumptions only; omit it for a${type === "Issue" ? "n" : ""} ${type}.`);
+      }
+      if (dueDate && !isIsoDate(dueDate)) {
+        errors.push(`dueDate "${dueDate}" is not a valid date. Use YYYY-MM-DD.`);
+      }
+      const links = linkedItems ? parseLinks(linkedItems) : [];
+      errors.push(...validateRaidLinks(customer.id, links));
+
+      if (errors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `RAID item not added:\n${errors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
+      }
+
+      const changedBy = resolveActor(extra);
+      const now = new Date().toISOString();
+      const item: RaidItem = {
+        id: store.nextId("raid"),
+        customerId: customer.id,
+        type,
+        title: title.trim(),
+        description,
+        probability: probability as RaidRating | undefined,
+        impact: impact as RaidRating | undefined,
+        owner,
+        mitigation,
+        status: "Open",
+        dueDate,
+        ...(links.length > 0 && { linkedItems: links }),
+        raisedBy: changedBy,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      store.raidItems.set(item.id, item);
+      recordChange({
+        entityType: "raidItem",
+        entityId: item.id,
+        customerId: customer.id,
+        action: "create",
+        after: item,
+        changedBy,
+      });
+
+      const warnings: string[] = [];
+      if (usesProbability(type) && (probability === undefined || impact === undefined)) {
+        warnings.push("Provide both probability and impact to score this item.");
+      } else if (type === "Issue" && impact === undefined) {
+        warnings.push("Provide impact to score this issue.");
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${type} added to the RAID log for ${customer.name}.\n\n**ID:** ${item.id}\n**Title:** ${item.title}\n**Score:** ${formatRaidScore(item)}${
+              owner ? `\n**Owner:** ${owner}` : ""
+            }${links.length > 0 ? `\n**Linked:** ${links.join(", ")}` : ""}${
+              warnings.length > 0 ? `\n\n${warnings.map((w) => `Warning: ${w}`).join("\n")}` : ""
+            }`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "update_raid_item",
+    "Update one or more fields of a RAID log item. Only the fields provided are changed; pass an empty string to clear an optional text field.",
+    {
+      raidId: z.string().describe("RAID item ID (e.g. raid-001)"),
+      title: z.string().optional().describe("Short summary"),
+      description: z.string().optional().describe("Details, or empty to clear"),
+      probability: rating.optional().describe("Likelihood 1–5. Risks and assumptions only"),
+      impact: rating.optional().describe("Impact 1–5"),
+      owner: z.string().optional().describe("Responsible person or role, or empty to clear"),
+      mitigation: z.string().optional().describe("Mitigation or response plan (rationale for decisions), or empty to clear"),
+      status: z.enum(RAID_STATUSES).optional().describe("New status"),
+      dueDate: z.string().optional().describe("Target date (YYYY-MM-DD), or empty to clear"),
+      linkedItems: z
+        .string()
+        .optional()
+        .describe("Comma-separated related checklist item IDs — replaces the current list; empty to clear"),
+      reason: z.string().optional().describe("Optional reason recorded in the change history"),
+    },
+    async (
+      { raidId, title, description, probability, impact, owner, mitigation, status, dueDate, linkedItems, reason },
+      extra
+    ) => {
+      const item = store.raidItems.get(raidId);
+      if (!item) {
+        return {
+          content: [{ type: "text", text: `RAID item not found: ${raidId}` }],
+        };
+      }
+
+      const errors: string[] = [];
+      if (title !== undefined && !title.trim()) {
+        errors.push("title cannot be empty.");
+      }
+      if (probability !== undefined && !usesProbability(item.type)) {
+        errors.push(`probability applies to risks and assumptions only, not ${item.type.toLowerCase()}s.`);
+      }
+      if (dueDate && !isIsoDate(dueDate)) {
+        errors.push(`dueDate "${dueDate}" is not a valid date. Use YYYY-MM-DD.`);
+      }
+      const links = linkedItems !== undefined ? parseLinks(linkedItems) : undefined;
+      if (links) errors.push(...validateRaidLinks(item.customerId, links));
+
+      if (errors.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `RAID item not updated:\n${errors.map((e) => `- ${e}`).join("\n")}` },
+          ],
+        };
+      }
+
+      const before = { ...item };
+      if (title !== undefined) item.title = title.trim();
+      if (description !== undefined) item.description = description || undefined;
+      if (probability !== undefined) item.probability = probability as RaidRating;
+      if (impact !== undefined) item.impact = impact as RaidRating;
+      if (owner !== undefined) item.owner = owner.trim() || undefined;
+      if (mitigation !== undefined) item.mitigation = mitigation || undefined;
+      if (dueDate !== undefined) item.dueDate = dueDate || undefined;
+      if (links !== undefined) item.linkedItems = links.length > 0 ? links : undefined;
+      if (status !== undefined && status !== item.status) {
+        item.status = status;
+        item.closedAt = isRaidClosed(item) ? new Date().toISOString() : undefined;
+      }
+
+      const changes = diffFields(before, item);
+      if (changes.length === 0) {
+        return {
+          content: [{ type: "text", text: `No changes to apply for **${item.title}** (${item.id}).` }],
+        };
+      }
+
+      item.updatedAt = new Date().toISOString();
+      store.raidItems.set(item.id, item);
+      recordChange({
+        entityType: "raidItem",
+        entityId: item.id,
+        customerId: item.customerId,
+        action: "update",
+        before,
+        after: item,
+        changedBy: resolveActor(extra),
+        reason,
+      });
+
+      const diff = changes
+        .map((c) => `| ${c.field} | ${formatField(c.before)} | ${formatField(c.after)} |`)
+        .join("\n");
+      const scoreBefore = raidScore(before);
+      const scoreAfter = raidScore(item);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `RAID item **${item.title}** (${item.id}) updated.\n\n| Field | Before | After |\n|-------|--------|-------|\n${diff}${
+              scoreBefore !== scoreAfter ? `\n\n**Score:** ${scoreBefore ?? "—"} → ${formatRaidScore(item)}` : ""
+            }`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "remove_raid_item",
+    "Remove an item from a customer's RAID log. Prefer update_raid_item with status Closed to keep the history visible.",
+    {
+      raidId: z.string().describe("RAID item ID (e.g. raid-001)"),
+      reason: z.string().optional().describe("Optional reason for the removal"),
+    },
+    async ({ raidId, reason }, extra) => {
+      const item = store.raidItems.get(raidId);
+      if (!item) {
+        return {
+          content: [{ type: "text", text: `RAID item not found: ${raidId}` }],
+        };
+      }
+
+      store.raidItems.delete(raidId);
+      recordChange({
+        entityType: "raidItem",
+        entityId: raidId,
+        customerId: item.customerId,
+        action: "delete",
+        before: item,
+        changedBy: resolveActor(extra),
+        reason,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `RAID item **${item.title}** (${raidId}) removed.`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "list_raid_items",
+    "Query a customer's RAID log (risks, assumptions, issues, decisions), highest score first. Resolved and Closed items are hidden unless includeClosed is set or a status is given.",
+    {
+      customerId: z.string().describe("Customer ID (e.g. cust-001) or name"),
+      type: z.enum(RAID_TYPES).optional().describe("Filter by type"),
+      status: z.enum(RAID_STATUSES).optional().describe("Filter by status"),
+      minScore: z.number().int().min(1).max(25).optional().describe("Only items scoring at least this (1–25)"),
+      owner: z.string().optional().describe("Filter by owner (case-insensitive)"),
+      linkedItemId: z.string().optional().describe("Only items linked to this checklist item (e.g. chk-004)"),
+      includeClosed: z.boolean().optional().describe("Include Resolved and Closed items. Default: false"),
+    },
+    async ({ customerId, type, status, minScore, owner, linkedItemId, includeClosed }) => {
+      const lookup = lookupCustomer(customerId);
+      if (!lookup.customer) {
+        return {
+          content: [{ type: "text", text: lookup.message }],
+        };
+      }
+      const customer = lookup.customer;
+
+      const all = raidItemsForCustomer(customer.id);
+      const items = all.filter(
+        (r) =>
+          (!type || r.type === type) &&
+          (status ? r.status === status : includeClosed || !isRaidClosed(r)) &&
+          (minScore === undefined || (raidScore(r) ?? 0) >= minScore) &&
+          (!owner || r.owner?.toLowerCase() === owner.trim().toLowerCase()) &&
+          (!linkedItemId || r.linkedItems?.includes(linkedItemId))
+      );
+
+      if (items.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No RAID items found for ${customer.name} matching the criteria.${
+                all.length === 0 ? " Use add_raid_item to start the log." : ""
+              }`,
+            },
+          ],
+        };
+      }
+
+      const open = all.filter((r) => !isRaidClosed(r));
+      const summary = RAID_TYPES.map((t) => `${t}s: ${open.filter((r) => r.type === t).length}`).join(" | ");
+
+      let output = `## RAID Log — ${customer.name} (${items.length})\n\n**Open:** ${summary}\n\n`;
+      for (const t of RAID_TYPES) {
+        const group = items.filter((r) => r.type === t);
+        if (group.length === 0) continue;
+        output += `### ${t}s\n${group.map(raidLine).join("\n")}\n\n`;
+      }
+
+      return {
+        content: [{ type: "text", text: output.trimEnd() }],
+      };
+    }
+  );
+}
@@ -1,16 +1,91 @@
 // ── Customer Types ──
 
+export type CustomerStatus =
+  | "Active"
+  | "Onboarding"
+  | "Go-Live"
+  | "Post-Go-Live"
+  | "Completed";
+
 export interface Customer {
   id: string;
   name: string;
   industry: string;
   region: string;
   engagementType: "FastTrack" | "Unified" | "Direct";
-  status: "Active" | "Onboarding" | "Go-Live" | "Post-Go-Live" | "Completed";
+  status: CustomerStatus;
+  /** Implementation phase; moved forward by evaluate_phase_gate (inferred from status when unset) */
+  currentPhase?: ChecklistPhase;
   d365Modules: string[];
   goLiveDate?: string;
   assignedArchitect?: string;
   notes?: string;
+  /** Data residency override: geographies environments may be hosted in (defaults from region) */
+  allowedGeographies?: string[];
+  /** Set when the engagement is archived; archived customers are hidden from listings */
+  archivedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ── Lifecycle Types ──
+
+export interface GateResult {
+  id: string;
+  description: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface TransitionEvaluation {
+  from: CustomerStatus;
+  to: CustomerStatus;
+  /** False if the transition is not in the lifecycle at all (no override possible) */
+  allowed: boolean;
+  gates: GateResult[];
+  unmetGates: GateResult[];
+}
+
+export interface PhaseGateEvaluation {
+  phase: ChecklistPhase;
+  /** Phase entered when the gate passes; undefined for Operate */
+  nextPhase?: ChecklistPhase;
+  passed: boolean;
+  gates: GateResult[];
+  unmetGates: GateResult[];
+}
+
+// ── Contact Types ──
+
+export type ContactRole =
+  | "Executive Sponsor"
+  | "Project Manager"
+  | "Partner Lead"
+  | "Solution Architect"
+  | "Data Architect"
+  | "Integration Architect"
+  | "Technical Architect"
+  | "Functional Lead"
+  | "Test Lead"
+  | "Change Manager"
+  | "Support Lead"
+  | "Business Owner"
+  | "FastTrack Architect"
+  | "Other";
+
+export type ContactOrganization = "Customer" | "Partner" | "Microsoft";
+
+export interface Contact {
+  id: string;
+  customerId: string;
+  name: string;
+  role: ContactRole;
+  organization: ContactOrganization;
+  email?: string;
+  /** IANA time zone (e.g. Europe/Amsterdam) */
+  timezone?: string;
+  phone?: string;
+  notes?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -26,7 +101,249 @@ export interface D365Environment {
   version: string;
   lcsProjectId?: string;
   url?: string;
-  status: "Active" | "Provisioning" | "Decommissioned";
+  /** Sandbox tier; defaults by type when not recorded (see effectiveTier) */
+  tier?: EnvironmentTier;
+  size?: EnvironmentSize;
+  /** What the environment is used for; defaults by type when not recorded */
+  purpose?: EnvironmentPurpose;
+  status: EnvironmentStatus;
+  /** When the environment entered Provisioning */
+  provisioningStartedAt?: string;
+  /** When provisioning finished and the environment became Active */
+  provisionedAt?: string;
+  decommissionedAt?: string;
+  /** Result of the most recent probe_environment run */
+  lastProbe?: EnvironmentProbe;
+}
+
+export type EnvironmentStatus = "Active" | "Provisioning" | "Decommissioned";
+
+/** LCS sandbox tier: Tier-1 is a single-box dev/test VM, Tier-2+ are multi-box */
+export type EnvironmentTier = "Tier-1" | "Tier-2" | "Tier-3" | "Tier-4" | "Tier-5";
+
+export type EnvironmentSize = "Small" | "Medium" | "Large" | "Extra Large";
+
+export type EnvironmentPurpose =
+  | "Development"
+  | "Build"
+  | "Test"
+  | "UAT"
+  | "Performance Testing"
+  | "Training"
+  | "Data Migration"
+  | "Golden Configuration"
+  | "Production";
+
+/** An environment the customer needs for a given phase (and optionally modules) */
+export interface TopologyRequirement {
+  id: string;
+  description: string;
+  /** Environment purposes that satisfy the requirement */
+  purposes: EnvironmentPurpose[];
+  /** Minimum tier; Production environments satisfy any tier */
+  minTier: EnvironmentTier;
+  count: number;
+  phases: ChecklistPhase[];
+  /** Only required when the customer licenses one of these modules (or a sub-module) */
+  modules?: string[];
+}
+
+export interface TopologyCheck {
+  requirement: TopologyRequirement;
+  /** Environments that satisfy the requirement */
+  matched: string[];
+  /** Environments with a matching purpose but too low a tier */
+  underTier: string[];
+  satisfied: boolean;
+}
+
+export type EnvironmentEventType =
+  | "provisioning-started"
+  | "provisioned"
+  | "version-upgrade"
+  | "version-downgrade"
+  | "decommissioned";
+
+export interface EnvironmentEvent {
+  id: string;
+  environmentId: string;
+  customerId: string;
+  type: EnvironmentEventType;
+  fromVersion?: string;
+  toVersion?: string;
+  timestamp: string;
+  recordedBy: string;
+  notes?: string;
+}
+
+export interface ProbeEndpointResult {
+  path: string;
+  /** HTTP status code, when a response was received */
+  status?: number;
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface TlsCertificateInfo {
+  subject?: string;
+  issuer?: string;
+  validTo: string;
+  daysToExpiry: number;
+  /** Whether the certificate chain validated against the trusted CAs */
+  authorized: boolean;
+  authorizationError?: string;
+}
+
+export interface EnvironmentProbe {
+  url: string;
+  probedAt: string;
+  probedBy: string;
+  /** True when the base URL returned any HTTP response (401/403 included) */
+  reachable: boolean;
+  latencyMs?: number;
+  tls?: TlsCertificateInfo;
+  /** Version-related response headers (e.g. x-ms-dyn-version) */
+  versionHeaders: Record<string, string>;
+  endpoints: ProbeEndpointResult[];
+}
+
+export type DeploymentOutcome = "Succeeded" | "Failed" | "Rolled Back";
+
+export interface ModelVersion {
+  name: string;
+  version: string;
+}
+
+export interface IsvSolution {
+  name: string;
+  version: string;
+  vendor?: string;
+}
+
+/** A deployable package applied to an environment */
+export interface Deployment {
+  id: string;
+  environmentId: string;
+  customerId: string;
+  packageName: string;
+  /** Models (and their versions) contained in the package */
+  models: ModelVersion[];
+  isvSolutions: IsvSolution[];
+  deployedBy: string;
+  deployedAt: string;
+  outcome: DeploymentOutcome;
+  notes?: string;
+}
+
+/** What an environment is running, folded from its successful deployments */
+export interface DeployedState {
+  environmentId: string;
+  lastPackage?: string;
+  lastDeployedAt?: string;
+  models: Record<string, string>;
+  isvSolutions: Record<string, string>;
+}
+
+export interface EnvironmentReadiness {
+  score: number;
+  label: "Excellent" | "Good" | "Needs Attention" | "Critical Issues";
+  environmentCount: number;
+  findings: string[];
+  /** Rule pack used for the assessment */
+  rulePack: { id: string; name: string; version: string };
+  phase: ChecklistPhase;
+  /** Rules that fired, in evaluation order */
+  results: RuleFinding[];
+  /** Rules skipped because they do not apply to the current phase */
+  skippedRules: string[];
+  /** Required topology for the current phase and how it is covered */
+  topology: TopologyCheck[];
+}
+
+// ── Readiness Rule Types ──
+
+export type RuleSeverity = "Critical" | "High" | "Medium" | "Low" | "Info";
+
+export type RuleOperator =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "notIn"
+  | "contains"
+  | "exists";
+
+/**
+ * Declarative predicate over the readiness facts. A leaf compares the value
+ * at a dotted fact path; all/any/not combine other predicates.
+ */
+export type RulePredicate =
+  | { fact: string; op: RuleOperator; value?: unknown }
+  | { all: RulePredicate[] }
+  | { any: RulePredicate[] }
+  | { not: RulePredicate };
+
+export interface ReadinessRule {
+  id: string;
+  description?: string;
+  /** The rule fires (and deducts its weight) when this predicate holds */
+  when: RulePredicate;
+  severity: RuleSeverity;
+  /** Points deducted from 100 when the rule fires */
+  weight: number;
+  /** Finding text; {{fact.path}} placeholders are filled from the facts */
+  message: string;
+  /** Phases the rule applies in; omitted means every phase */
+  phases?: ChecklistPhase[];
+}
+
+export interface RulePack {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  /** Engagement types this pack is the default for */
+  engagementTypes?: Customer["engagementType"][];
+  rules: ReadinessRule[];
+}
+
+export interface RuleFinding {
+  ruleId: string;
+  severity: RuleSeverity;
+  weight: number;
+  message: string;
+}
+
+// ── Version Catalog Types ──
+
+export interface ServiceUpdate {
+  /** F&O application version (e.g. 10.0.41) */
+  version: string;
+  /** General availability date (YYYY-MM-DD) */
+  releaseDate: string;
+  /** Date Microsoft auto-applies the update to environments still on older versions */
+  autoUpdateDate: string;
+  /** Last date the version is supported (YYYY-MM-DD) */
+  endOfServiceDate: string;
+  notes?: string;
+}
+
+export type VersionSupportStatus =
+  | "Supported"
+  | "Ends Before Go-Live"
+  | "Ends During Hypercare"
+  | "Unsupported"
+  | "Unknown";
+
+export interface VersionSupport {
+  version: string;
+  status: VersionSupportStatus;
+  update?: ServiceUpdate;
+  /** Days from today until end of service (negative once expired) */
+  daysToEndOfService?: number;
 }
 
 // ── Implementation Types ──
@@ -43,10 +360,88 @@ export interface ChecklistItem {
   category: string;
   title: string;
   description: string;
-  status: "Not Started" | "In Progress" | "Completed" | "Blocked" | "N/A";
+  status: ChecklistStatus;
   owner?: string;
   dueDate?: string;
   notes?: string;
+  /** Template item this was generated from ("templateId#key"), if any */
+  templateRef?: string;
+  /** IDs of checklist items that must finish before this one */
+  dependsOn?: string[];
+  /** Remaining work in calendar days, used for the critical path */
+  estimatedEffortDays?: number;
+  /** Set when Blocked only because an upstream item is blocked */
+  blockedBy?: string[];
+  /** Status to restore when the upstream block clears */
+  statusBeforeBlock?: ChecklistStatus;
+  /** Append-only discussion thread, oldest first */
+  comments?: ChecklistComment[];
+  /** Documents backing the item's status (e.g. proof of completion) */
+  evidence?: ChecklistEvidence[];
+}
+
+export interface ChecklistComment {
+  id: string;
+  /** The resolved caller who posted the comment */
+  author: string;
+  /** Person the comment was relayed for, as given by the caller */
+  onBehalfOf?: string;
+  text: string;
+  createdAt: string;
+}
+
+export type EvidenceKind = "file" | "url" | "extraction";
+
+export interface ChecklistEvidence {
+  id: string;
+  kind: EvidenceKind;
+  /** File path, URL, or a description of the saved extraction */
+  reference: string;
+  title?: string;
+  addedBy: string;
+  addedAt: string;
+  /** Saved output of extract_pdf / extract_email, for kind "extraction" */
+  extraction?: ExtractionResult;
+}
+
+export type ChecklistStatus = "Not Started" | "In Progress" | "Completed" | "Blocked" | "N/A";
+
+/** Checklist status counts for one customer on one day (the last state of that day) */
+export interface ProgressSnapshot {
+  customerId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  counts: Record<ChecklistStatus, number>;
+  byPhase: Partial<Record<ChecklistPhase, Record<ChecklistStatus, number>>>;
+  capturedAt: string;
+}
+
+/** An item in a checklist template; due dates are scheduled relative to go-live */
+export interface ChecklistTemplateItem {
+  /** Stable key within the template, used to skip items already applied */
+  key: string;
+  phase: ChecklistPhase;
+  category: string;
+  title: string;
+  description: string;
+  /** Owner role or name (e.g. Project Manager) */
+  owner?: string;
+  /** Days before go-live the item is due; negative for after go-live */
+  daysBeforeGoLive: number;
+  /** Only generated when the customer licenses one of these modules (or a sub-module) */
+  modules?: string[];
+}
+
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  /** Engagement types the template is meant for; omitted means all */
+  engagementTypes?: Customer["engagementType"][];
+  /** Modules the template targets; omitted means all */
+  modules?: string[];
+  items: ChecklistTemplateItem[];
 }
 
 // ── Best Practices Types ──
@@ -62,6 +457,17 @@ export interface BestPractice {
   tags: string[];
 }
 
+// ── Module Catalog Types ──
+
+export interface D365Module {
+  /** Canonical module name stored on customers and best practices */
+  name: string;
+  aliases: string[];
+  /** Canonical name of the parent module (e.g. Warehouse Management → Supply Chain Management) */
+  parent?: string;
+  description: string;
+}
+
 // ── Data Extraction Types ──
 
 export type ExtractionOutputFormat =
@@ -86,6 +492,82 @@ export interface ExtractionResult {
   fieldHints?: Record<string, string>;
 }
 
+// ── RAID Log Types ──
+
+export type RaidType = "Risk" | "Assumption" | "Issue" | "Decision";
+
+export type RaidStatus = "Open" | "In Progress" | "Resolved" | "Closed";
+
+/** 1 (very low) to 5 (very high) */
+export type RaidRating = 1 | 2 | 3 | 4 | 5;
+
+/** A risk, assumption, issue, or decision on a customer engagement */
+export interface RaidItem {
+  id: string;
+  customerId: string;
+  type: RaidType;
+  title: string;
+  description?: string;
+  /** Likelihood it happens (risks) or proves wrong (assumptions); issues have already happened */
+  probability?: RaidRating;
+  impact?: RaidRating;
+  owner?: string;
+  /** Mitigation or response plan; for decisions, the rationale */
+  mitigation?: string;
+  status: RaidStatus;
+  dueDate?: string;
+  /** Related checklist item IDs */
+  linkedItems?: string[];
+  raisedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string;
+}
+
+// ── Audit Types ──
+
+export type AuditedEntityType =
+  | "customer"
+  | "environment"
+  | "checklistItem"
+  | "contact"
+  | "raidItem"
+  | "deployment";
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ChangeLogEntry {
+  id: string;
+  entityType: AuditedEntityType;
+  entityId: string;
+  customerId: string;
+  action: "create" | "update" | "delete";
+  changes: FieldChange[];
+  changedBy: string;
+  timestamp: string;
+  reason?: string;
+}
+
+// ── Persistence Types ──
+
+export type StorageKind = "memory" | "json" | "sqlite";
+
+/**
+ * Key/value persistence backend behind the FastTrack store. Each named
+ * collection maps record keys to JSON-serializable values.
+ */
+export interface StorageBackend {
+  readonly kind: StorageKind;
+  load(collection: string): Array<[string, unknown]>;
+  put(collection: string, key: string, value: unknown): void;
+  remove(collection: string, key: string): void;
+  isEmpty(): boolean;
+}
+
 // ── Auth Types ──
 
 export interface GraphAuthConfig {
@@ -0,0 +1,19 @@
+import { readdirSync, readFileSync } from "fs";
+import { extname, join } from "path";
+import { parse as parseYaml } from "yaml";
+
+const DATA_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/** Parse a .json, .yaml, or .yml file */
+export function parseDataFile(filePath: string): unknown {
+  const raw = readFileSync(filePath, "utf-8");
+  return extname(filePath) === ".json" ? JSON.parse(raw) : parseYaml(raw);
+}
+
+/** JSON/YAML files in a directory, sorted by name, as full paths */
+export function listDataFiles(dir: string): string[] {
+  return readdirSync(dir)
+    .filter((f) => DATA_FILE_EXTENSIONS.includes(extname(f)))
+    .sort()
+    .map((f) => join(dir, f));
+}
@@ -0,0 +1,20 @@
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Today's date as YYYY-MM-DD (UTC) */
+export function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Add (or subtract) whole days to a YYYY-MM-DD date */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Whole days from `from` to `to` (negative if `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  const start = Date.parse(`${from.slice(0, 10)}T00:00:00Z`);
+  const end = Date.parse(`${to.slice(0, 10)}T00:00:00Z`);
+  return Math.round((end - start) / MS_PER_DAY);
+}
@@ -0,0 +1,49 @@
+/** Lower-case, collapse punctuation and whitespace */
+export function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Levenshtein edit distance */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/** 0..1 similarity between two words; prefixes of 3+ characters score high */
+export function wordSimilarity(query: string, target: string): number {
+  if (query === target) return 1;
+  if (query.length >= 3 && target.startsWith(query)) return 0.9;
+  const distance = editDistance(query, target);
+  return Math.max(0, 1 - distance / Math.max(query.length, target.length));
+}
+
+/**
+ * 0..1 score for how well a free-text query matches a text: every query word
+ * is matched to its closest word in the text and the results are averaged.
+ */
+export function tokenMatchScore(query: string, text: string): number {
+  const queryWords = normalizeText(query).split(" ").filter(Boolean);
+  const textWords = normalizeText(text).split(" ").filter(Boolean);
+  if (queryWords.length === 0 || textWords.length === 0) return 0;
+
+  const total = queryWords.reduce(
+    (sum, q) => sum + Math.max(...textWords.map((t) => wordSimilarity(q, t))),
+    0
+  );
+  return total / queryWords.length;
+}
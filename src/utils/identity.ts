@@ -0,0 +1,53 @@
+import { userInfo } from "os";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Headers set by Azure App Service authentication or a fronting proxy */
+const IDENTITY_HEADERS = ["x-ms-client-principal-name", "x-fasttrack-user"];
+
+/**
+ * Identity headers can be set by any client, so they are only honoured when
+ * FASTTRACK_TRUST_PROXY=true says an authenticating proxy sits in front and
+ * strips them from incoming requests.
+ */
+function trustIdentityHeaders(): boolean {
+  return process.env.FASTTRACK_TRUST_PROXY?.toLowerCase() === "true";
+}
+
+/**
+ * Resolve who is calling a tool, for the audit trail.
+ *
+ * Priority: validated OAuth client → identity headers on the HTTP request
+ * (trusted proxy only) → FASTTRACK_USER environment variable → session →
+ * local OS user (stdio transport).
+ */
+export function resolveActor(extra?: ToolExtra): string {
+  if (extra?.authInfo?.clientId) {
+    return extra.authInfo.clientId;
+  }
+
+  const headers = trustIdentityHeaders() ? extra?.requestInfo?.headers : undefined;
+  if (headers) {
+    for (const name of IDENTITY_HEADERS) {
+      const value = headers[name];
+      const first = Array.isArray(value) ? value[0] : value;
+      if (first) return first;
+    }
+  }
+
+  if (process.env.FASTTRACK_USER) {
+    return process.env.FASTTRACK_USER;
+  }
+
+  if (extra?.sessionId) {
+    return `session:${extra.sessionId}`;
+  }
+
+  try {
+    return `local:${userInfo().username}`;
+  } catch {
+    return "unknown";
+  }
+}
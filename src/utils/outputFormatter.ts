@@ -7,9 +7,13 @@ import type {
 const TARGET_TOOL_FORMAT_MAP: Record<string, ExtractionOutputFormat> = {
   add_customer: "json",
   update_customer_status: "json",
+  update_customer: "json",
   add_environment: "json",
+  record_deployment: "json",
   add_checklist_item: "json",
+  add_raid_item: "json",
   update_checklist_item: "json",
+  attach_checklist_evidence: "json",
   search_best_practices: "markdown",
   get_implementation_checklist: "markdown",
   get_customer: "key-value",
@@ -28,6 +32,7 @@ const TARGET_TOOL_FIELDS: Record<string, string[]> = {
     "d365Modules",
     "goLiveDate",
     "assignedArchitect",
+    "allowedGeographies",
   ],
   add_environment: [
     "customerId",
@@ -37,6 +42,20 @@ const TARGET_TOOL_FIELDS: Record<string, string[]> = {
     "version",
     "lcsProjectId",
     "url",
+    "tier",
+    "size",
+    "purpose",
+    "status",
+  ],
+  record_deployment: [
+    "environmentId",
+    "packageName",
+    "models",
+    "isvSolutions",
+    "outcome",
+    "deployedBy",
+    "deployedAt",
+    "notes",
   ],
   add_checklist_item: [
     "customerId",
@@ -47,7 +66,33 @@ const TARGET_TOOL_FIELDS: Record<string, string[]> = {
     "owner",
     "dueDate",
   ],
-  update_customer_status: ["customerId", "status", "notes"],
+  add_raid_item: [
+    "customerId",
+    "type",
+    "title",
+    "description",
+    "probability",
+    "impact",
+    "owner",
+    "mitigation",
+    "dueDate",
+    "linkedItems",
+  ],
+  update_customer_status: ["customerId", "status", "notes", "overrideReason"],
+  update_customer: [
+    "customerId",
+    "name",
+    "industry",
+    "region",
+    "engagementType",
+    "d365Modules",
+    "goLiveDate",
+    "assignedArchitect",
+    "notes",
+    "allowedGeographies",
+    "currentPhase",
+    "overrideReason",
+  ],
   update_checklist_item: ["customerId", "itemId", "status", "notes"],
 };
 
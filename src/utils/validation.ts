@@ -0,0 +1,19 @@
+/**
+ * True if the value is a real calendar date in YYYY-MM-DD form
+ * (rejects "2026-02-30", "06/15/2026", etc.).
+ */
+export function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * True if the value is an ISO 8601 date, or date and time with a UTC offset
+ * ("2026-03-03", "2026-03-03T22:00:00Z", "2026-03-03T22:00+01:00").
+ * Rejects free-form dates such as "March 3" that Date.parse would accept.
+ */
+export function isIsoTimestamp(value: string): boolean {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2}))?$/);
+  return !!match && isIsoDate(match[1]) && !Number.isNaN(Date.parse(value));
+}